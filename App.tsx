@@ -1,44 +1,64 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Mic, Clock, Zap, AlertTriangle, Hourglass, FileDown, Lock, LogIn, Headphones, X as CloseIcon, RefreshCcw, Layers, Cpu, Sparkles, Activity, FileAudio, Upload, BookOpen, FolderOpen, Save, Wand2, ArrowRightCircle, Download } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Mic, Clock, Zap, AlertTriangle, Hourglass, FileDown, Lock, LogIn, Headphones, X as CloseIcon, RefreshCcw, Layers, Cpu, Sparkles, Activity, FileAudio, Upload, BookOpen, FolderOpen, Save, Wand2, ArrowRightCircle, Download, Undo2, Redo2, GitCompare, Loader2, Film } from 'lucide-react';
 import { useSpeechRecognition } from './hooks/useSpeechRecognition';
 import { useStopwatch } from './hooks/useStopwatch';
+import { useAudioCapture } from './hooks/useAudioCapture';
+import { useAudioPlayback } from './hooks/useAudioPlayback';
+import { useAudioTranscription } from './hooks/useAudioTranscription';
+import { useBatchQueue } from './hooks/useBatchQueue';
 import { Controls } from './components/Controls';
 import { TranscriptArea } from './components/TranscriptArea';
 import { ContextPanel } from './components/ContextPanel';
 import { NetworkStatus } from './components/NetworkStatus';
 import { SessionVault } from './components/SessionVault';
-import { TranscriptionStatus, SessionMetadata, SessionData } from './types';
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
+import { LivePanel } from './components/LivePanel';
+import { useLiveInterpreter } from './hooks/useLiveInterpreter';
+import { useSpeechSynthesis } from './hooks/useSpeechSynthesis';
+import { ReaderControls } from './components/ReaderControls';
+import { createLiveTransport, buildLiveInstruction } from './services/liveInterpreter';
+import { LanguagePairSelect } from './components/LanguagePairSelect';
+import { SettingsPanel } from './components/SettingsPanel';
+import { SpeakerBar } from './components/SpeakerBar';
+import { ReferencePassages } from './components/ReferencePassages';
+import { PlayerBar } from './components/PlayerBar';
+import { TranscriptionProgress } from './components/TranscriptionProgress';
+import { BatchPanel } from './components/BatchPanel';
+import { VideoPreview, VideoSource } from './components/VideoPreview';
+import { ExportDialog, ExportOptions } from './components/ExportDialog';
+import { TranscriptionStatus, SessionMetadata, SessionData, LanguagePair, AISettings, TimedSpan, Segment, Speaker, SessionSnapshot, SnapshotReason, EditOrigin, HistoryEntry, GlossaryTerm, ReferenceDocument, AudioChunk } from './types';
+import { LANGUAGES, DEFAULT_LANGUAGE_PAIR } from './languages';
+import { createProvider, loadAISettings, saveAISettings, retryWithBackoff, isAbortError, PromptContext } from './services/aiProvider';
+import { loadGlossary, saveGlossary, matchGlossary, termsIn } from './services/glossary';
+import { buildReferenceIndex, searchReference, formatPassages, PassageHit } from './services/referenceIndex';
+import { useSegmentStore, COALESCE_MS } from './hooks/useSegmentStore';
+import { TranscriptItem } from './components/TranscriptArea';
+import { generateId } from './utils/id';
+import { formatOffset } from './utils/time';
+import { formatBytes } from './utils/bytes';
+import { diffWords } from './utils/diff';
+import { downloadBlob, safeFileName } from './utils/download';
+import { buildCues, formatSrt, formatVtt } from './utils/subtitles';
+import { TimedLine, isVideoFile } from './services/audioTranscription';
+import { takeBlob } from './utils/audio';
+import { buildArchive, serializeArchive, buildBilingualDocx, buildMarkdown } from './services/sessionExport';
+import { listSessions, loadSessionData, saveSession, deleteSession, migrateLegacyStorage, saveSnapshot, snapshotData, saveAudioChunk, deleteSessionAudio, StorageWriteError } from './services/sessionStore';
+import { createSegment, needsTranslation, segmentSource, segmentsFromLegacy, segmentAt } from './utils/segments';
+import { referencesOf, enabledReferences } from './utils/references';
+import { SPEAKER_STYLES, MAX_SPEAKERS, createSpeaker, defaultSpeakers, resolveSpeakerLabels } from './utils/speakers';
 
 const VALID_PASSWORDS = ['Hieuai', 'Hieuai@'];
 const AUTH_KEY = 'livescribe_auth_v1';
-const SESSIONS_META_KEY = 'scribe_sessions_meta_v1';
-const SESSION_DATA_PREFIX = 'scribe_session_data_v1_';
-
-// Helpers
-const generateId = () => Math.random().toString(36).substring(2, 11);
-
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve((reader.result as string).split(',')[1]);
-    reader.onerror = error => reject(error);
-  });
+const ORIGIN_LABELS: Record<EditOrigin, string> = {
+  recognizer: 'Recognition',
+  refiner: 'Refiner Rewrite',
+  translator: 'Interpretation',
+  user: 'Edit',
 };
-
-async function retryWithBackoff<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
-  try { return await fn(); } catch (error: any) {
-    const isQuota = error?.status === 429 || error?.message?.includes('429');
-    if (isQuota && retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retryWithBackoff(fn, retries - 1, delay * 2);
-    }
-    throw error;
-  }
-}
+// Passages sent with a Live session, which has no per-chunk retrieval.
+const LIVE_REFERENCE_PASSAGES = 6;
+// Minimum spacing between autosave snapshots in a session's history.
+const SNAPSHOT_INTERVAL_MS = 3 * 60 * 1000;
 
 function App() {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(() => sessionStorage.getItem(AUTH_KEY) === 'true');
@@ -48,40 +68,90 @@ function App() {
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [isVaultOpen, setIsVaultOpen] = useState(false);
   const [lastSaved, setLastSaved] = useState<number>(0);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // Guards async session loads so a slow read cannot overwrite a newer selection.
+  const loadTokenRef = useRef(0);
+  // A save already scheduled must not bring back a session deleted in the meantime.
+  const deletedIdsRef = useRef(new Set<string>());
+  const lastSnapshotRef = useRef<{ sessionId: string | null; at: number; fingerprint: string }>({ sessionId: null, at: 0, fingerprint: '' });
+  const [languagePair, setLanguagePair] = useState<LanguagePair>(DEFAULT_LANGUAGE_PAIR);
+  const sourceLang = LANGUAGES[languagePair.source];
+  const targetLang = LANGUAGES[languagePair.target];
+  const [aiSettings, setAiSettings] = useState<AISettings>(loadAISettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [isVideoOpen, setIsVideoOpen] = useState(false);
+  const provider = useMemo(() => createProvider(aiSettings), [aiSettings]);
 
+  // Bridges the stopwatch (which depends on recognizer status) back into the recognizer.
+  const sessionClockRef = useRef<() => number>(() => 0);
   const {
-    status, text, interimText, error: sttError, velocity,
+    status, text: pendingText, interimText, error: sttError, velocity,
     startRecording, pauseRecording, stopRecording, clearTranscript,
-    setText, isSupported
-  } = useSpeechRecognition();
+    setText: setPendingText, isSupported, getFragmentCount, consumeFragments
+  } = useSpeechRecognition(sourceLang.locale, useCallback(() => sessionClockRef.current(), []));
+  const {
+    segments, loadSegments, appendSegments, appendSegment, updateSegment, clearSegments,
+    undo, redo, nextUndo, nextRedo, sourceText, translatedText
+  } = useSegmentStore();
+  const text = useMemo(() => [sourceText, pendingText.trim()].filter(Boolean).join('\n'), [sourceText, pendingText]);
 
   const isRecording = status === TranscriptionStatus.RECORDING;
-  const { elapsedTime, formatTime, resetTimer } = useStopwatch(isRecording);
+  const { elapsedTime, formatTime, resetTimer, getElapsedMs } = useStopwatch(isRecording);
+  sessionClockRef.current = getElapsedMs;
+  const [showTimestamps, setShowTimestamps] = useState(false);
+  const [showRefinerDiff, setShowRefinerDiff] = useState(false);
+  const [speakers, setSpeakers] = useState<Speaker[]>(defaultSpeakers);
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  // Read when a segment is committed, which happens outside the render that switched speakers.
+  const activeSpeakerRef = useRef<string | null>(null);
+  const [diarizeUploads, setDiarizeUploads] = useState(false);
   
   const [aiError, setAiError] = useState<string | null>(null);
   const [contextDesc, setContextDesc] = useState('');
-  const [contextFileName, setContextFileName] = useState('');
-  const [fileContent, setFileContent] = useState('');
-  const [translatedText, setTranslatedText] = useState('');
+  const [references, setReferences] = useState<ReferenceDocument[]>([]);
+  const [glossary, setGlossary] = useState<GlossaryTerm[]>(loadGlossary);
+  const referenceIndex = useMemo(() => buildReferenceIndex(enabledReferences(references)), [references]);
+  // Passages retrieved for each segment's refinement and interpretation, for the audit strip.
+  const [passageLog, setPassageLog] = useState<Record<string, PassageHit[]>>({});
   const [isTranslating, setIsTranslating] = useState(false);
   const [isRefining, setIsRefining] = useState(false);
-  const [isBatchMode, setIsBatchMode] = useState(false);
-  const [batchFileProcessing, setBatchFileProcessing] = useState(false);
   
   const [isLiveMode, setIsLiveMode] = useState(false);
-  const [liveTranscription, setLiveTranscription] = useState<{user: string, ai: string}[]>([]);
+  const liveTransport = useMemo(() => createLiveTransport(), []);
+  const {
+    turns: liveTranscription, isActive: isLiveActive, isConnecting: isLiveConnecting, isSpeaking: isLiveSpeaking,
+    error: liveError, start: startLiveSession, stop: stopLiveSession, clearTurns: clearLiveTurns
+  } = useLiveInterpreter(liveTransport);
 
+  // Length of the pending-buffer prefix currently handed to the refiner.
   const refinedRef = useRef(0); 
-  const processedRef = useRef(0); 
+  const pendingSinceRef = useRef<number>(0);
+  // Segments put back by undo/redo that the translator must leave as they are until edited.
+  const heldRef = useRef<Set<string>>(new Set());
+  const isQueued = (s: Segment) => needsTranslation(s) && !heldRef.current.has(s.id);
+  // A source line being typed in is also held, and queued once typing has paused for
+  // the window that groups keystrokes into one undo step.
+  const editTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const [settledEdits, setSettledEdits] = useState(0);
+  const [hoveredSegmentId, setHoveredSegmentId] = useState<string | null>(null);
+  const [pinnedSegment, setPinnedSegment] = useState<{ id: string; from: 'source' | 'target' } | null>(null);
   
   const refiningInProgressRef = useRef(false);
   const translatingRef = useRef(false);
+  const translationAbortRef = useRef<AbortController | null>(null);
+  const translatingSegmentRef = useRef<string | null>(null);
+  // Bumped on session switch and clear so late refiner results are dropped.
+  const pipelineEpochRef = useRef(0);
+  const [streamingTranslation, setStreamingTranslation] = useState('');
   const lastRequestTimeRef = useRef<number>(0);
   const minIntervalRef = useRef<number>(150); 
   const retryTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const refineTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const [ttsEnabled, setTtsEnabled] = useState(false);
+  const reader = useSpeechSynthesis(translatedText, ttsEnabled, isRecording, targetLang.locale);
   const englishRef = useRef<HTMLDivElement>(null);
   const vietnameseRef = useRef<HTMLDivElement>(null);
   
@@ -89,234 +159,370 @@ function App() {
   const scrollLockTimeoutRef = useRef<number | null>(null);
   const lastSyncPercentage = useRef<number>(0);
 
+  const reportStorageError = (e: unknown) => {
+    console.error("Vault write error", e);
+    setStorageError(e instanceof StorageWriteError ? e.message : "Could not write to the Vault.");
+  };
+
+  const playback = useAudioPlayback(activeSessionId);
+  const audioCapture = useAudioCapture({
+    sessionId: activeSessionId, status, clock: getElapsedMs,
+    onChunk: playback.addChunk, onStorageError: reportStorageError,
+  });
+
   useEffect(() => {
-    const meta = localStorage.getItem(SESSIONS_META_KEY);
-    if (meta) {
-      const parsed = JSON.parse(meta);
-      setSessions(parsed);
-      if (parsed.length > 0) handleSelectSession(parsed[0].id);
-      else createNewSession("Initial Session");
-    } else {
-      createNewSession("Untitled Meeting");
-    }
+    (async () => {
+      try { await migrateLegacyStorage(); } catch (e) { reportStorageError(e); }
+      try {
+        const stored = await listSessions();
+        setSessions(stored);
+        if (stored.length > 0) handleSelectSession(stored[0].id, { incoming: stored[0] });
+        else createNewSession("Untitled Meeting");
+      } catch (e) {
+        console.error("Vault read error", e);
+        setStorageError("Could not open the Vault on this device.");
+      }
+    })();
   }, []);
 
   useEffect(() => {
     if (!activeSessionId || !isAuthenticated) return;
     const saveTimer = setTimeout(() => saveCurrentToStorage(), 5000);
     return () => clearTimeout(saveTimer);
-  }, [text, translatedText, contextDesc, contextFileName, fileContent, activeSessionId, elapsedTime]);
-
-  const saveCurrentToStorage = () => {
-    if (!activeSessionId) return;
-    const data: SessionData = {
-      text,
-      translatedText,
-      contextDesc,
-      fileContent,
-      fileName: contextFileName,
-      processedIndex: processedRef.current
-    };
-    localStorage.setItem(SESSION_DATA_PREFIX + activeSessionId, JSON.stringify(data));
-    setSessions(prev => {
-      const updated = prev.map(s => {
-        if (s.id === activeSessionId) {
-          return { ...s, updatedAt: Date.now(), durationSeconds: elapsedTime, wordCount: text.split(/\s+/).filter(Boolean).length };
-        }
-        return s;
-      });
-      localStorage.setItem(SESSIONS_META_KEY, JSON.stringify(updated));
-      return updated;
-    });
-    setLastSaved(Date.now());
+  }, [segments, pendingText, speakers, contextDesc, references, languagePair, activeSessionId, elapsedTime]);
+
+  const currentSessionData = (): SessionData => ({
+    text,
+    translatedText,
+    contextDesc,
+    references,
+    languagePair,
+    segments,
+    pendingText,
+    speakers
+  });
+
+  // Skips empty sessions and content identical to the previous snapshot. Autosave
+  // snapshots are throttled; the ones taken before destructive actions are not.
+  const recordSnapshot = async (sessionId: string, data: SessionData, reason: SnapshotReason) => {
+    const fingerprint = `${data.text}\u0000${data.translatedText}`;
+    const last = lastSnapshotRef.current;
+    if (!data.text.trim() && !data.translatedText.trim()) return;
+    if (last.sessionId === sessionId && last.fingerprint === fingerprint) return;
+    if (reason === 'auto' && last.sessionId === sessionId && Date.now() - last.at < SNAPSHOT_INTERVAL_MS) return;
+    lastSnapshotRef.current = { sessionId, at: Date.now(), fingerprint };
+    try { await saveSnapshot(sessionId, data, reason); } catch (e) { reportStorageError(e); }
   };
 
-  const createNewSession = (name: string) => {
+  const currentMeta = (meta: SessionMetadata): SessionMetadata => (
+    { ...meta, updatedAt: Date.now(), durationSeconds: elapsedTime, wordCount: text.split(/\s+/).filter(Boolean).length }
+  );
+
+  // The snapshot is taken synchronously, so callers may switch sessions without awaiting.
+  const saveCurrentToStorage = async () => {
+    const meta = sessions.find(s => s.id === activeSessionId);
+    if (!meta || deletedIdsRef.current.has(meta.id)) return false;
+    const data = currentSessionData();
+    try {
+      const stored = await saveSession(currentMeta(meta), data);
+      setSessions(prev => prev.map(s => s.id === stored.id ? stored : s));
+      setLastSaved(Date.now());
+      setStorageError(null);
+      recordSnapshot(stored.id, data, 'auto');
+      return true;
+    } catch (e) {
+      reportStorageError(e);
+      return false;
+    }
+  };
+
+  const createNewSession = async (name: string, persistCurrent = true) => {
     const id = generateId();
     const newMeta: SessionMetadata = { id, name, createdAt: Date.now(), updatedAt: Date.now(), durationSeconds: 0, wordCount: 0 };
-    const updatedMeta = [newMeta, ...sessions];
-    setSessions(updatedMeta);
-    localStorage.setItem(SESSIONS_META_KEY, JSON.stringify(updatedMeta));
-    handleSelectSession(id);
+    try { await saveSession(newMeta); } catch (e) { reportStorageError(e); }
+    setSessions(prev => [newMeta, ...prev]);
+    handleSelectSession(id, { incoming: newMeta, persistCurrent });
     setIsVaultOpen(false);
   };
 
-  const handleSelectSession = (id: string) => {
-    if (activeSessionId) saveCurrentToStorage();
-    const dataRaw = localStorage.getItem(SESSION_DATA_PREFIX + id);
-    if (dataRaw) {
-      const data: SessionData = JSON.parse(dataRaw);
-      setText(data.text || '');
-      setTranslatedText(data.translatedText || '');
+  const cancelTranslation = () => {
+    translationAbortRef.current?.abort();
+    translationAbortRef.current = null;
+    translatingSegmentRef.current = null;
+    translatingRef.current = false;
+    setIsTranslating(false);
+    setStreamingTranslation('');
+  };
+
+  // `incoming` is metadata just written to the store and not yet reflected in `sessions`.
+  // The current session is saved first unless it was deleted or is being replaced by an import.
+  const handleSelectSession = async (id: string, { incoming, persistCurrent = true }: { incoming?: SessionMetadata; persistCurrent?: boolean } = {}) => {
+    if (persistCurrent && activeSessionId && !(incoming && activeSessionId === id)) saveCurrentToStorage();
+    const token = ++loadTokenRef.current;
+    cancelTranslation();
+    pipelineEpochRef.current++;
+    clearTranscript();
+    let data: SessionData | null = null;
+    try { data = await loadSessionData(id); }
+    catch (e) { console.error("Vault read error", e); setStorageError("Could not read the session from the Vault."); }
+    if (token !== loadTokenRef.current) return;
+    lastSnapshotRef.current = { sessionId: id, at: 0, fingerprint: data ? `${data.text}\u0000${data.translatedText}` : '' };
+    if (data) {
+      loadSegments(data.segments || segmentsFromLegacy(data.text || '', data.translatedText || '', Date.now()));
+      setPendingText(data.segments ? data.pendingText || '' : '');
       setContextDesc(data.contextDesc || '');
-      setContextFileName(data.fileName || '');
-      setFileContent(data.fileContent || '');
-      processedRef.current = data.processedIndex || 0;
-      refinedRef.current = (data.text || '').length;
+      setReferences(referencesOf(data));
+      setLanguagePair(data.languagePair || DEFAULT_LANGUAGE_PAIR);
+      setSpeakers(data.speakers || defaultSpeakers());
     } else {
-      setText(''); setTranslatedText(''); setContextDesc(''); setContextFileName(''); setFileContent('');
-      processedRef.current = 0; refinedRef.current = 0;
+      loadSegments([]); setPendingText(''); setContextDesc(''); setReferences([]);
+      setLanguagePair(DEFAULT_LANGUAGE_PAIR);
+      setSpeakers(defaultSpeakers());
     }
-    resetTimer();
+    setActiveSpeakerId(null);
+    activeSpeakerRef.current = null;
+    heldRef.current.clear();
+    setPassageLog({});
+    refinedRef.current = 0;
+    pendingSinceRef.current = 0;
+    setPinnedSegment(null);
+    resetTimer((incoming || sessions.find(s => s.id === id))?.durationSeconds || 0);
     setActiveSessionId(id);
     setIsVaultOpen(false);
   };
 
-  const handleDeleteSession = (id: string) => {
+  const handleImportSession = async (meta: SessionMetadata, data: SessionData) => {
+    try {
+      const stored = await saveSession(meta, data);
+      setSessions(prev => [stored, ...prev.filter(s => s.id !== stored.id)]);
+      handleSelectSession(stored.id, { incoming: stored });
+    } catch (e) { reportStorageError(e); }
+  };
+
+  // The state being replaced is snapshotted first, so a restore can itself be undone.
+  // Snapshots hold the transcript only; the session keeps its current context and references.
+  const handleRestoreSnapshot = async (snapshot: SessionSnapshot) => {
+    const meta = sessions.find(s => s.id === snapshot.sessionId);
+    if (!meta) return;
+    const isActive = meta.id === activeSessionId;
+    const current = isActive ? currentSessionData() : await loadSessionData(meta.id);
+    if (current) await saveSnapshot(meta.id, current, 'before-restore');
+    const restored: SessionData = { contextDesc: '', ...current, ...snapshotData(snapshot.data) };
+    const stored = await saveSession({ ...(isActive ? currentMeta(meta) : meta), updatedAt: Date.now(), wordCount: snapshot.wordCount }, restored);
+    setSessions(prev => prev.map(s => s.id === stored.id ? stored : s));
+    handleSelectSession(stored.id, { incoming: stored });
+  };
+
+  const handleClear = () => {
+    if (activeSessionId) recordSnapshot(activeSessionId, currentSessionData(), 'before-clear');
+    cancelTranslation();
+    pipelineEpochRef.current++;
+    clearTranscript();
+    clearSegments('user');
+    setPinnedSegment(null);
+    refinedRef.current = 0;
+    pendingSinceRef.current = 0;
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    deletedIdsRef.current.add(id);
+    try { await deleteSession(id); } catch (e) { deletedIdsRef.current.delete(id); reportStorageError(e); return; }
     const updated = sessions.filter(s => s.id !== id);
     setSessions(updated);
-    localStorage.setItem(SESSIONS_META_KEY, JSON.stringify(updated));
-    localStorage.removeItem(SESSION_DATA_PREFIX + id);
     if (activeSessionId === id) {
-      if (updated.length > 0) handleSelectSession(updated[0].id);
-      else createNewSession("Untitled Meeting");
+      if (updated.length > 0) handleSelectSession(updated[0].id, { persistCurrent: false });
+      else createNewSession("Untitled Meeting", false);
     }
   };
 
-  const exportSession = async () => {
-    const sessionName = sessions.find(s => s.id === activeSessionId)?.name || "session";
-    const doc = new Document({
-      sections: [{
-        children: [
-          new Paragraph({ text: "HIEUAI TRANSLATE - SESSION ARCHIVE", heading: HeadingLevel.HEADING_1 }),
-          new Paragraph({ text: `Title: ${sessionName}\nDate: ${new Date().toLocaleString()}\nDuration: ${formatTime(elapsedTime)}` }),
-          new Paragraph({ text: "Context & Objectives", heading: HeadingLevel.HEADING_2 }),
-          new Paragraph({ text: contextDesc || "No context objectives provided." }),
-          new Paragraph({ text: "Original Transcript (English)", heading: HeadingLevel.HEADING_2 }),
-          ...text.split('\n').map(line => new Paragraph({ text: line })),
-          new Paragraph({ text: "Interpretation (Vietnamese)", heading: HeadingLevel.HEADING_2 }),
-          ...translatedText.split('\n').map(line => new Paragraph({ text: line })),
-        ],
-      }],
+  const handleDeleteAudio = async (id: string) => {
+    // A take's later chunks cannot be played without its first one.
+    if (id === activeSessionId && audioCapture.isCapturing) {
+      setStorageError("Stop recording before deleting this session's audio.");
+      return;
+    }
+    try { await deleteSessionAudio(id); } catch (e) { reportStorageError(e); return; }
+    if (id === activeSessionId) playback.reload();
+  };
+
+  const speakerById = useMemo(() => new Map(speakers.map(s => [s.id, s])), [speakers]);
+
+  const speakerNameOf = (s: Segment) => s.speakerId ? speakerById.get(s.speakerId)?.name : undefined;
+
+  const handleExport = async ({ format, sections, track }: ExportOptions) => {
+    const meta = sessions.find(s => s.id === activeSessionId);
+    if (!meta) return;
+    const archive = buildArchive(currentMeta(meta), currentSessionData());
+    const baseName = safeFileName(meta.name);
+
+    if (format === 'json') {
+      downloadBlob(new Blob([serializeArchive(archive)], { type: 'application/json' }), `${baseName}_session.json`);
+      return;
+    }
+    if (format === 'srt' || format === 'vtt') {
+      const cues = buildCues(segments, track, speakerNameOf);
+      if (cues.length === 0) throw new Error("Nothing to export yet.");
+      const body = format === 'srt' ? formatSrt(cues) : formatVtt(cues);
+      const suffix = track === 'bilingual' ? `${languagePair.source}-${languagePair.target}` : languagePair[track];
+      downloadBlob(new Blob([body], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' }), `${baseName}_${suffix}.${format}`);
+      return;
+    }
+
+    const summary = sections.summary && provider && text.trim()
+      ? await retryWithBackoff<string>(() => provider.summarize(text, promptContext(text)))
+      : '';
+    const usedTerms = termsIn(glossary, text);
+    if (format === 'markdown') {
+      downloadBlob(new Blob([buildMarkdown(archive, sections, summary, usedTerms)], { type: 'text/markdown' }), `${baseName}_archive.md`);
+    } else {
+      downloadBlob(await buildBilingualDocx(archive, sections, summary, usedTerms), `${baseName}_archive.docx`);
+    }
+  };
+
+  // Glossary terms and reference passages are matched per call, so each prompt only
+  // carries what is relevant to its text.
+  const promptContext = (text: string, hits = searchReference(referenceIndex, text)): PromptContext => (
+    { pair: languagePair, contextDesc, reference: formatPassages(hits), glossary: matchGlossary(glossary, text) }
+  );
+
+  const logPassages = (segmentId: string, hits: PassageHit[]) => {
+    if (hits.length === 0) return;
+    setPassageLog(prev => {
+      const merged = new Map<number, PassageHit>((prev[segmentId] || []).map(h => [h.passage.id, h]));
+      hits.forEach(h => { if ((merged.get(h.passage.id)?.score || 0) < h.score) merged.set(h.passage.id, h); });
+      return { ...prev, [segmentId]: Array.from(merged.values()).sort((a, b) => b.score - a.score) };
     });
+  };
 
-    try {
-      const blob = await Packer.toBlob(doc);
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${sessionName.replace(/\s+/g, '_')}_archive.docx`;
-      a.click();
-      URL.revokeObjectURL(url);
-    } catch (e) { alert("Export failed."); }
+  // Text that did not come from the live recognizer (uploads, restored buffers) has no
+  // fragment timing, so it is stamped from when it first appeared in the buffer.
+  const untimedSpan = (): TimedSpan => {
+    const now = Date.now();
+    const offset = getElapsedMs();
+    const startedAt = pendingSinceRef.current || now;
+    return { startedAt, endedAt: now, startOffsetMs: Math.max(0, offset - (now - startedAt)), endOffsetMs: offset };
   };
 
   const refineEnglishTranscript = useCallback(async () => {
-    if (!process.env.API_KEY || refiningInProgressRef.current) return;
+    if (refiningInProgressRef.current) return;
     
-    const raw = text;
-    const unrefinedChunk = raw.slice(refinedRef.current).trim();
+    const unrefinedChunk = pendingText.trim();
     
     // Low-latency Refiner: Commit as soon as any text fragment is finalized
     const minThreshold = velocity > 30 ? 10 : 5;
     if (unrefinedChunk.length < minThreshold) return; 
 
     refiningInProgressRef.current = true;
+    refinedRef.current = pendingText.length;
+    const fragmentCount = getFragmentCount();
+    const epoch = pipelineEpochRef.current;
+    const fallbackSpan = untimedSpan();
+    const speakerId = activeSpeakerRef.current || undefined;
     setIsRefining(true);
 
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const sys = `Expert AI Transcriber. Polish speech to text transcript immediately.
-                     CONTEXT: ${contextDesc}. 
-                     REFERENCE MATERIALS: ${fileContent.slice(0, 1500)}. 
-                     Match technical jargon found in the materials. 
-                     Rules: Add punctuation, fix homophones, preserve exact meaning. Output English only.`;
-
-        const res = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: `Refine: "${unrefinedChunk}"`,
-            config: { systemInstruction: sys, temperature: 0.1 }
-        }));
-
-        if (res.text) {
-            const refined = res.text.trim();
-            setText(prev => {
-                const head = prev.slice(0, refinedRef.current);
-                const separator = (head.endsWith('\n') || head === '') ? '' : ' ';
-                const newFullText = head + separator + refined;
-                refinedRef.current = newFullText.length;
-                return newFullText;
-            });
+        // Without an AI engine, or in verbatim mode, the chunk is committed unrefined.
+        const shouldRefine = provider && aiSettings.refineTranscript;
+        const hits = shouldRefine ? searchReference(referenceIndex, unrefinedChunk) : [];
+        const refined = shouldRefine
+            ? await retryWithBackoff<string>(() => provider.refine(unrefinedChunk, promptContext(unrefinedChunk, hits)))
+            : '';
+        if (epoch !== pipelineEpochRef.current) return;
+
+        if (refined || !shouldRefine) {
+            // Recorded as two steps so undoing the rewrite falls back to what was heard.
+            const segment = createSegment(unrefinedChunk, '', consumeFragments(fragmentCount) || fallbackSpan, 'raw', speakerId);
+            appendSegment(segment, 'recognizer');
+            if (refined) updateSegment(segment.id, { refined, refinedBy: 'refiner', status: 'refined' }, 'refiner');
+            logPassages(segment.id, hits);
+            const consumed = refinedRef.current;
+            setPendingText(prev => prev.slice(consumed).trimStart());
+            pendingSinceRef.current = 0;
         }
     } catch (e) { console.error("Refiner error", e); }
     finally {
+        refinedRef.current = 0;
         refiningInProgressRef.current = false;
         setIsRefining(false);
     }
-  }, [text, contextDesc, fileContent, setText, velocity]);
+  }, [pendingText, contextDesc, setPendingText, appendSegment, updateSegment, getFragmentCount, consumeFragments, velocity, languagePair, glossary, referenceIndex, provider, aiSettings.refineTranscript]);
 
-  const performTranslation = useCallback(async (isBatchRequest: boolean = false) => {
-    if (!process.env.API_KEY) return;
-    if (translatingRef.current && !isBatchRequest) return;
+  // "Sync Now": commit whatever the refiner has not picked up yet so it is interpreted immediately.
+  const flushPendingText = useCallback(() => {
+    const chunk = pendingText.trim();
+    if (!chunk || refiningInProgressRef.current) return;
+    const span = consumeFragments(getFragmentCount()) || untimedSpan();
+    appendSegment(createSegment(chunk, '', span, 'raw', activeSpeakerRef.current || undefined), 'recognizer');
+    setPendingText('');
+    pendingSinceRef.current = 0;
+  }, [pendingText, appendSegment, setPendingText, getFragmentCount, consumeFragments]);
+
+  const performTranslation = useCallback(async () => {
+    if (!provider || translatingRef.current) return;
     
     const now = Date.now();
     const elapsed = now - lastRequestTimeRef.current;
     
-    if (!isBatchRequest && elapsed < minIntervalRef.current) {
+    if (elapsed < minIntervalRef.current) {
         if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
         retryTimeoutRef.current = setTimeout(() => performTranslation(), minIntervalRef.current - elapsed + 1);
         return;
     }
     
-    const sourceText = text;
-    const endPoint = isBatchRequest ? sourceText.length : refinedRef.current;
-    const chunk = sourceText.slice(processedRef.current, endPoint);
-    
-    if (chunk.trim().length === 0) return;
+    const target = segments.find(isQueued);
+    if (!target) return;
 
+    const controller = new AbortController();
+    translationAbortRef.current = controller;
+    translatingSegmentRef.current = target.id;
     translatingRef.current = true;
     setIsTranslating(true);
+    setStreamingTranslation('');
+    updateSegment(target.id, { status: 'translating' });
 
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const activeModel = 'gemini-3-flash-preview';
-        
-        let sys = `Expert Professional Simultaneous Interpreter (EN -> VI).
-                   CONTEXT: ${contextDesc}.
-                   TECHNICAL GLOSSARY: ${fileContent.slice(0, 4000)}.
-                   
-                   RULES:
-                   1. Output ONLY Vietnamese.
-                   2. Use the TECHNICAL GLOSSARY to accurately translate specific terms and project names.
-                   3. Zero-Latency flow: Translate immediately and concisely.
-                   4. Tone: Professional and accurate.`;
-
         lastRequestTimeRef.current = Date.now();
-        const res = await ai.models.generateContent({
-            model: activeModel,
-            contents: `Interpret to Vietnamese: "${chunk}"`,
-            config: { systemInstruction: sys, temperature: 0.1 }
-        });
-
-        if (res.text) {
-            const val = res.text.trim();
-            if (val) {
-                setTranslatedText(prev => {
-                    const p = prev.trimEnd();
-                    const sep = (p.length > 0 && !p.endsWith('\n')) ? '\n' : '';
-                    return p + sep + val;
-                });
-                processedRef.current = endPoint;
-                setAiError(null);
-            }
+        const hits = searchReference(referenceIndex, segmentSource(target));
+        logPassages(target.id, hits);
+        const val = await provider.translateStream(
+            segmentSource(target),
+            promptContext(segmentSource(target), hits),
+            (partial) => { if (!controller.signal.aborted) setStreamingTranslation(partial); },
+            controller.signal
+        );
+        if (controller.signal.aborted) return;
+
+        updateSegment(target.id, { translation: val, status: 'translated' }, 'translator');
+        setAiError(null);
+    } catch (e: any) {
+        if (!isAbortError(e)) {
+            setAiError("Interpretation lag detected.");
+            updateSegment(target.id, { status: target.status });
         }
-    } catch (e: any) { setAiError("Interpretation lag detected."); }
+    }
     finally {
-        translatingRef.current = false;
-        setIsTranslating(false);
+        if (translationAbortRef.current === controller) {
+            translationAbortRef.current = null;
+            translatingSegmentRef.current = null;
+            translatingRef.current = false;
+            setIsTranslating(false);
+            setStreamingTranslation('');
+        }
     }
-  }, [text, contextDesc, fileContent, refinedRef]);
+  }, [segments, contextDesc, referenceIndex, languagePair, glossary, provider, updateSegment]);
 
   // Aggressive orchestration for near-zero latency experience
   useEffect(() => {
-    if (!isAuthenticated || isLiveMode || isBatchMode) return;
+    if (!isAuthenticated || isLiveMode) return;
 
-    if (!refiningInProgressRef.current && text.length > refinedRef.current + 5) {
+    if (pendingText.trim() && !pendingSinceRef.current) pendingSinceRef.current = Date.now();
+
+    if (!refiningInProgressRef.current && pendingText.trim().length > 5) {
         if (refineTimeoutRef.current) clearTimeout(refineTimeoutRef.current);
         refineTimeoutRef.current = setTimeout(() => refineEnglishTranscript(), 250);
     }
 
-    if (!translatingRef.current && refinedRef.current > processedRef.current) {
+    if (!translatingRef.current && segments.some(isQueued)) {
         if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
         const cycle = velocity > 40 ? 50 : 100; 
         retryTimeoutRef.current = setTimeout(() => performTranslation(), cycle);
@@ -326,36 +532,229 @@ function App() {
         if (refineTimeoutRef.current) clearTimeout(refineTimeoutRef.current);
         if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
     };
-  }, [text, refineEnglishTranscript, performTranslation, isAuthenticated, isLiveMode, isBatchMode, velocity]);
+  }, [pendingText, segments, refineEnglishTranscript, performTranslation, isAuthenticated, isLiveMode, velocity, settledEdits]);
+
+  useEffect(() => () => editTimersRef.current.forEach(clearTimeout), []);
+
+  const clearEditTimer = (id: string) => {
+    clearTimeout(editTimersRef.current.get(id));
+    editTimersRef.current.delete(id);
+  };
+
+  // Editing a source line supersedes any interpretation of its previous wording. A
+  // cleared line has nothing left to interpret.
+  const handleEditSource = useCallback((id: string, value: string) => {
+    if (translatingSegmentRef.current === id) cancelTranslation();
+    heldRef.current.add(id);
+    clearEditTimer(id);
+    editTimersRef.current.set(id, setTimeout(() => {
+      editTimersRef.current.delete(id);
+      heldRef.current.delete(id);
+      setSettledEdits(n => n + 1);
+    }, COALESCE_MS));
+    const edit = value.trim()
+      ? { refined: value, refinedBy: 'user' as const, status: 'refined' as const }
+      : { refined: '', refinedBy: 'user' as const, translation: '', status: 'translated' as const };
+    updateSegment(id, edit, 'user');
+  }, [updateSegment]);
+
+  // A hand-edited interpretation is final, so the translator will not overwrite it.
+  const handleEditTranslation = useCallback((id: string, value: string) => {
+    if (translatingSegmentRef.current === id) cancelTranslation();
+    clearEditTimer(id);
+    heldRef.current.delete(id);
+    updateSegment(id, { translation: value, status: 'translated' }, 'user');
+  }, [updateSegment]);
+
+  // Puts the recognizer's wording back. The interpretation was made from the refined
+  // text, so the chunk is queued again.
+  const handleRevertRefinement = useCallback((id: string) => {
+    if (translatingSegmentRef.current === id) cancelTranslation();
+    clearEditTimer(id);
+    heldRef.current.delete(id);
+    updateSegment(id, { refined: '', refinedBy: undefined, status: 'raw' }, 'user');
+  }, [updateSegment]);
+
+  // Segments put back by a history step are held from the translator, otherwise an
+  // undone interpretation would be redone at once. Editing the line releases it.
+  const settleHistoryStep = (entry: HistoryEntry | null, to: 'before' | 'after') => {
+    entry?.changes.forEach(change => {
+      const restored = change[to];
+      const id = (change.before || change.after)!.id;
+      if (translatingSegmentRef.current === id) cancelTranslation();
+      clearEditTimer(id);
+      if (!restored) { heldRef.current.delete(id); return; }
+      if (restored.status === 'translating') updateSegment(id, { status: restored.translation ? 'translated' : 'refined' });
+      if (needsTranslation(restored) || restored.status === 'translating') heldRef.current.add(id);
+      else heldRef.current.delete(id);
+    });
+  };
+
+  const handleUndo = () => settleHistoryStep(undo(), 'before');
+  const handleRedo = () => settleHistoryStep(redo(), 'after');
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes. Other text fields keep their
+  // native undo; the transcript line editors are driven by the segment history.
+  useEffect(() => {
+    if (!isAuthenticated || isLiveMode) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      const isUndo = key === 'z' && !e.shiftKey;
+      const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey);
+      if (!isUndo && !isRedo) return;
+      const el = e.target as HTMLElement;
+      const isField = el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName);
+      if (isField && !el.hasAttribute('data-item-id')) return;
+      e.preventDefault();
+      if (isUndo) handleUndo(); else handleRedo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Text already in the buffer belongs to the outgoing speaker, so it is committed before switching.
+  const switchSpeaker = (id: string | null) => {
+    if (id === activeSpeakerRef.current) return;
+    flushPendingText();
+    activeSpeakerRef.current = id;
+    setActiveSpeakerId(id);
+  };
+
+  const addSpeaker = () => setSpeakers(prev => prev.length >= MAX_SPEAKERS ? prev : [...prev, createSpeaker(prev.length)]);
+  const renameSpeaker = (id: string, name: string) => setSpeakers(prev => prev.map(s => s.id === id ? { ...s, name } : s));
+
+  // Alt+1..9 switches the active speaker, Alt+0 stops tagging. Matched on `code`
+  // because Alt changes `key` on macOS layouts.
+  useEffect(() => {
+    if (!isAuthenticated || isLiveMode) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!e.altKey || e.ctrlKey || e.metaKey || !/^Digit\d$/.test(e.code)) return;
+      const index = Number(e.code.slice(5));
+      if (index > 0 && !speakers[index - 1]) return;
+      e.preventDefault();
+      switchSpeaker(index === 0 ? null : speakers[index - 1].id);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const stampOf = (s: Segment) => showTimestamps ? formatOffset(s.startOffsetMs) : undefined;
+  const labelOf = (s: Segment) => {
+    const speaker = s.speakerId ? speakerById.get(s.speakerId) : undefined;
+    return speaker ? { name: speaker.name, className: SPEAKER_STYLES[speaker.color].chip } : undefined;
+  };
+  // Only the refiner's rewrites are diffed and revertible; a hand edit is the user's own wording.
+  const isRefinedChunk = (s: Segment) => !!s.refined && s.refined !== s.raw && s.refinedBy !== 'user';
+  const refinedChunkCount = useMemo(() => segments.filter(isRefinedChunk).length, [segments]);
+  const sourceItems = useMemo<TranscriptItem[]>(() => segments.map(s => ({
+    id: s.id,
+    text: segmentSource(s),
+    timestamp: stampOf(s),
+    speaker: labelOf(s),
+    diff: showRefinerDiff && isRefinedChunk(s) ? diffWords(s.raw, s.refined) : undefined,
+    hasAudio: playback.hasAudioAt(s.startOffsetMs),
+  })), [segments, showTimestamps, speakerById, showRefinerDiff, playback.hasAudioAt]);
+  const targetItems = useMemo<TranscriptItem[]>(() => segments.filter(s => s.translation).map(s => ({ id: s.id, text: s.translation, timestamp: stampOf(s), speaker: labelOf(s), hasAudio: playback.hasAudioAt(s.startOffsetMs) })), [segments, showTimestamps, speakerById, playback.hasAudioAt]);
+  // The line under the playhead, highlighted in both panes.
+  const playingSegmentId = useMemo(() => playback.positionMs !== null ? segmentAt(segments, playback.positionMs)?.id ?? null : null, [segments, playback.positionMs]);
+  const playSegmentAudio = useCallback((id: string) => {
+    if (id === playingSegmentId && playback.isPlaying) { playback.toggle(); return; }
+    const segment = segments.find(s => s.id === id);
+    if (segment) playback.seek(segment.startOffsetMs);
+  }, [segments, playingSegmentId, playback.isPlaying, playback.toggle, playback.seek]);
+  // Clicking a line moves the playhead there; playback carries on only if it was running.
+  const selectSegment = (id: string, from: 'source' | 'target') => {
+    togglePinnedSegment(id, from);
+    const segment = segments.find(s => s.id === id);
+    if (segment && playback.hasAudioAt(segment.startOffsetMs)) playback.seek(segment.startOffsetMs, playback.isPlaying);
+  };
+  const activeSegmentId = hoveredSegmentId || pinnedSegment?.id || null;
+  const auditSegmentId = activeSegmentId || segments[segments.length - 1]?.id || null;
+  const togglePinnedSegment = (id: string, from: 'source' | 'target') => setPinnedSegment(prev => prev?.id === id && prev.from === from ? null : { id, from });
+
+  // The last video uploaded this session, for the preview when Keep Audio is off.
+  const [videoUpload, setVideoUpload] = useState<(VideoSource & { sessionId: string }) | null>(null);
+
+  // An upload takes up its length on the session timeline: it starts at the current
+  // offset and the clock moves past it, so later recording does not overlap it. When
+  // audio is kept, the file itself becomes a take for playback.
+  const placeUpload = async (file: File, durationMs: number) => {
+    const base = getElapsedMs();
+    resetTimer(Math.ceil((base + durationMs) / 1000));
+    if (isVideoFile(file) && activeSessionId) setVideoUpload({ sessionId: activeSessionId, blob: file, name: file.name, startOffsetMs: base });
+    if (audioCapture.enabled && activeSessionId) {
+      const chunk: AudioChunk = {
+        id: generateId(), sessionId: activeSessionId, takeId: generateId(), seq: 0,
+        startOffsetMs: base, endOffsetMs: base + durationMs,
+        mimeType: file.type || 'application/octet-stream', bytes: file.size, blob: file,
+      };
+      try {
+        await saveAudioChunk(chunk);
+        playback.addChunk(chunk);
+      } catch (e) { reportStorageError(e); }
+    }
+    return base;
+  };
+
+  // Uploaded lines become segments directly; diarized ones carry the provider's speaker labels.
+  const appendTranscribedLines = (lines: TimedLine[]) => {
+    if (lines.length === 0) return;
+    const now = Date.now();
+    const resolved = resolveSpeakerLabels(speakers, lines.filter(l => l.speaker).map(l => l.speaker!));
+    if (lines.some(l => l.speaker)) setSpeakers(resolved.speakers);
+    appendSegments(lines.map(l => createSegment(l.text, '', {
+        startedAt: now, endedAt: now, startOffsetMs: l.startMs, endOffsetMs: l.endMs
+    }, 'raw', l.speaker ? resolved.idFor(l.speaker) : undefined)), 'recognizer');
+  };
+
+  // Rebuilt only when the video take itself changes, not whenever a recorded chunk
+  // lands; a new Blob would reload the open preview from the start.
+  const videoTake = [...playback.takes].reverse().find(t => t.mimeType.startsWith('video/')) || null;
+  const videoTakeSource = useMemo<VideoSource | null>(() => videoTake
+    ? { blob: takeBlob(videoTake), name: 'Session video', startOffsetMs: videoTake.startOffsetMs }
+    : null, [videoTake?.id, videoTake?.chunks.length]);
+  const videoSource = videoUpload && videoUpload.sessionId === activeSessionId ? videoUpload : videoTakeSource;
+
+  // Batch files go straight into new sessions; the Vault list picks them up as they are saved.
+  const batch = useBatchQueue({
+    provider,
+    onSession: (meta) => setSessions(prev => [meta, ...prev.filter(s => s.id !== meta.id)]),
+  });
+
+  const handleBatchFiles = (files: File[]) => batch.enqueue(files, {
+    pair: languagePair, contextDesc, references, glossary,
+    diarize: diarizeUploads, refine: aiSettings.refineTranscript, keepAudio: audioCapture.enabled,
+  });
+
+  const transcription = useAudioTranscription({
+    provider, sessionId: activeSessionId, pair: languagePair, contextDesc, terms: glossary.map(t => t.source),
+    placeUpload, onLines: appendTranscribedLines, onStorageError: reportStorageError,
+  });
 
   // Explicitly using React.ChangeEvent to fix the missing namespace error
   const handleAudioBatchUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file || !process.env.API_KEY) return;
-    setBatchFileProcessing(true); setIsTranslating(true); setAiError(null);
-    try {
-        const base64 = await fileToBase64(file);
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const transcribeResponse = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: { 
-                parts: [
-                    { inlineData: { data: base64, mimeType: file.type || 'audio/mpeg' } }, 
-                    { text: `Transcribe this audio file verbatim. Use this context: ${contextDesc}` }
-                ] 
-            }
-        });
-        if (transcribeResponse.text) {
-            setText(prev => prev + "\n[UPLOADED AUDIO]: " + transcribeResponse.text);
-        }
-    } catch (err) { setAiError("Audio processing failed."); }
-    finally { setBatchFileProcessing(false); setIsTranslating(false); }
+    // Cleared so the same file can be picked again to resume an interrupted run.
+    e.target.value = '';
+    if (!file || !provider) return;
+    setAiError(null);
+    await transcription.start(file, diarizeUploads);
+  };
+
+  const handleSaveSettings = (settings: AISettings) => {
+    setAiSettings(settings);
+    saveAISettings(settings);
   };
 
-  const handleContextChange = useCallback((desc: string, content: string, fileName: string) => {
+  const handleContextChange = useCallback((desc: string, docs: ReferenceDocument[]) => {
     setContextDesc(desc);
-    setFileContent(content);
-    setContextFileName(fileName);
+    setReferences(docs);
+  }, []);
+
+  const handleGlossaryChange = useCallback((terms: GlossaryTerm[]) => {
+    setGlossary(terms);
+    saveGlossary(terms);
   }, []);
 
   const handleScrollSync = useCallback((source: 'english' | 'vietnamese', percentage: number) => {
@@ -379,8 +778,20 @@ function App() {
     });
   }, []);
 
-  const startLiveMode = async () => { setIsLiveMode(true); };
-  const stopLiveMode = () => { setIsLiveMode(false); };
+  // Live sessions get one instruction up front: passages matching the objectives and
+  // glossary, or the start of the document when nothing matches.
+  const liveReference = () => {
+    const hits = searchReference(referenceIndex, [contextDesc, ...glossary.map(t => t.source)].join(' '), LIVE_REFERENCE_PASSAGES);
+    return formatPassages(hits.length > 0 ? hits : referenceIndex.passages.slice(0, LIVE_REFERENCE_PASSAGES).map(passage => ({ passage, score: 0 })));
+  };
+
+  // Live mode owns the microphone, so the recognizer is paused while it runs.
+  const startLiveMode = async () => {
+    if (isRecording) pauseRecording();
+    setIsLiveMode(true);
+    await startLiveSession(buildLiveInstruction(languagePair, contextDesc, liveReference(), glossary));
+  };
+  const stopLiveMode = () => { stopLiveSession(); setIsLiveMode(false); };
 
   if (!isAuthenticated) {
     return (
@@ -406,9 +817,49 @@ function App() {
         onClose={() => setIsVaultOpen(false)} 
         sessions={sessions} 
         activeSessionId={activeSessionId}
-        onSelect={handleSelectSession}
+        onSelect={(id) => handleSelectSession(id)}
         onDelete={handleDeleteSession}
-        onNew={createNewSession}
+        onNew={(name) => createNewSession(name)}
+        onImport={handleImportSession}
+        loadCurrent={(id) => id === activeSessionId ? Promise.resolve(currentSessionData()) : loadSessionData(id)}
+        onRestore={handleRestoreSnapshot}
+        onDeleteAudio={handleDeleteAudio}
+        busyIds={batch.busySessionIds}
+      />
+      <BatchPanel
+        isOpen={isBatchOpen}
+        onClose={() => setIsBatchOpen(false)}
+        jobs={batch.jobs}
+        busySessionIds={batch.busySessionIds}
+        pairLabel={`${sourceLang.name} → ${targetLang.name}`}
+        diarize={diarizeUploads}
+        onDiarizeChange={setDiarizeUploads}
+        canProcess={!!provider}
+        onAddFiles={handleBatchFiles}
+        onCancel={batch.cancel}
+        onClearFinished={batch.clearFinished}
+        onOpenSession={(id) => { setIsBatchOpen(false); handleSelectSession(id); }}
+      />
+      <VideoPreview
+        isOpen={isVideoOpen}
+        onClose={() => setIsVideoOpen(false)}
+        source={videoSource}
+        segments={segments}
+        onPlay={() => { if (playback.isPlaying) playback.toggle(); }}
+      />
+      <SettingsPanel
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        settings={aiSettings}
+        onSave={handleSaveSettings}
+      />
+      <ExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        sourceName={sourceLang.name}
+        targetName={targetLang.name}
+        canSummarize={!!provider}
+        onExport={handleExport}
       />
 
       <header className="bg-white border-b border-slate-200 px-4 md:px-8 py-3 md:py-4 flex items-center justify-between shrink-0 z-30 shadow-sm">
@@ -416,24 +867,35 @@ function App() {
           <button onClick={() => setIsVaultOpen(true)} className="w-10 h-10 md:w-12 md:h-12 bg-slate-100 text-slate-600 rounded-xl flex items-center justify-center hover:bg-blue-50 hover:text-blue-600 transition-all border border-slate-200">
             <FolderOpen className="w-5 h-5" />
           </button>
+          <button onClick={() => setIsSettingsOpen(true)} className="w-10 h-10 md:w-12 md:h-12 bg-slate-100 text-slate-600 rounded-xl flex items-center justify-center hover:bg-blue-50 hover:text-blue-600 transition-all border border-slate-200" title="AI Engine">
+            <Cpu className="w-5 h-5" />
+          </button>
           <div>
             <div className="flex items-center gap-2">
                 <h1 className="text-sm md:text-lg font-black tracking-tighter text-slate-900 uppercase truncate max-w-[150px] sm:max-w-none">
                     {sessions.find(s => s.id === activeSessionId)?.name || "Session Hub"}
                 </h1>
-                <div className="hidden sm:flex items-center gap-1.5 px-2 py-0.5 bg-emerald-50 text-emerald-600 rounded-full border border-emerald-100">
-                    <Save className="w-2.5 h-2.5" />
-                    <span className="text-[8px] font-black uppercase tracking-tighter">Auto-Vault</span>
-                </div>
+                {storageError ? (
+                    <div className="hidden sm:flex items-center gap-1.5 px-2 py-0.5 bg-red-50 text-red-600 rounded-full border border-red-100" title={storageError}>
+                        <AlertTriangle className="w-2.5 h-2.5" />
+                        <span className="text-[8px] font-black uppercase tracking-tighter">Vault Error</span>
+                    </div>
+                ) : (
+                    <div className="hidden sm:flex items-center gap-1.5 px-2 py-0.5 bg-emerald-50 text-emerald-600 rounded-full border border-emerald-100">
+                        <Save className="w-2.5 h-2.5" />
+                        <span className="text-[8px] font-black uppercase tracking-tighter">Auto-Vault</span>
+                    </div>
+                )}
             </div>
           </div>
         </div>
         
         <div className="flex items-center gap-3">
+            <LanguagePairSelect value={languagePair} onChange={setLanguagePair} disabled={isRecording || isLiveMode} />
             <div className="hidden sm:flex items-center gap-3 bg-slate-50 border border-slate-200 px-5 py-2 rounded-xl font-mono text-xl font-black tabular-nums">
                 <Clock className={`w-4 h-4 ${isRecording ? 'text-red-500 animate-pulse' : 'text-slate-400'}`} /> {formatTime(elapsedTime)}
             </div>
-            <button onClick={exportSession} className="p-2.5 md:px-5 md:py-2.5 bg-blue-600 text-white hover:bg-blue-700 rounded-xl text-[10px] font-black uppercase flex items-center gap-2 transition-all">
+            <button onClick={() => setIsExportOpen(true)} className="p-2.5 md:px-5 md:py-2.5 bg-blue-600 text-white hover:bg-blue-700 rounded-xl text-[10px] font-black uppercase flex items-center gap-2 transition-all">
                 <FileAudio className="w-4 h-4" />
                 <span className="hidden sm:inline">Export</span>
             </button>
@@ -443,19 +905,45 @@ function App() {
         </div>
       </header>
 
+      {storageError && (
+          <div className="bg-red-50 border-b border-red-200 px-4 md:px-8 py-2 flex items-center gap-3 text-red-700 shrink-0 z-20">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <span className="text-[11px] font-bold flex-1">{storageError}</span>
+              <button onClick={() => setStorageError(null)} className="p-1 hover:bg-red-100 rounded-lg transition-all" title="Dismiss">
+                  <CloseIcon className="w-4 h-4" />
+              </button>
+          </div>
+      )}
+
+      {isLiveMode && (
+          <LivePanel
+              turns={liveTranscription}
+              isActive={isLiveActive}
+              isConnecting={isLiveConnecting}
+              isSpeaking={isLiveSpeaking}
+              error={liveError}
+              onStop={stopLiveMode}
+              onClear={clearLiveTurns}
+          />
+      )}
+
       {!isLiveMode && (
           <>
             <ContextPanel 
+                sessionId={activeSessionId}
                 initialDescription={contextDesc}
-                initialFileName={contextFileName}
-                initialFileContent={fileContent}
+                initialReferences={references}
                 onContextChange={handleContextChange} 
+                glossary={glossary}
+                onGlossaryChange={handleGlossaryChange}
+                ocr={provider ? (image: Blob) => retryWithBackoff<string>(() => provider.ocr(image)) : undefined}
+                ocrOnUpload={aiSettings.ocrScannedPages}
             />
             
             <div className="bg-slate-900 text-white px-8 py-2 flex items-center justify-center gap-6 shadow-xl z-20 overflow-hidden">
                 <div className="flex items-center gap-2">
                     <Activity className={`w-3.5 h-3.5 ${isRecording ? 'text-blue-400' : 'text-slate-500'}`} />
-                    <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">Gemini 3 Flash Pulse</span>
+                    <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{provider ? `${provider.model} Pulse` : 'No AI Engine'}</span>
                 </div>
                 <div className="flex items-center gap-4">
                     <div className="flex items-center gap-2">
@@ -466,31 +954,143 @@ function App() {
                         <Sparkles className={`w-3 h-3 ${isTranslating ? 'text-emerald-400 animate-pulse' : 'text-slate-600'}`} />
                         <span className={`text-[9px] font-black uppercase ${isTranslating ? 'text-emerald-200' : 'text-slate-600'}`}>Interpreting</span>
                     </div>
+                    <button
+                        onClick={() => setShowTimestamps(v => !v)}
+                        className={`flex items-center gap-2 border-l border-slate-800 pl-4 text-[9px] font-black uppercase ${showTimestamps ? 'text-amber-200' : 'text-slate-600 hover:text-slate-400'}`}
+                        title="Toggle segment timecodes"
+                    >
+                        <Clock className={`w-3 h-3 ${showTimestamps ? 'text-amber-400' : ''}`} /> Timecodes
+                    </button>
+                    <button
+                        onClick={() => setShowRefinerDiff(v => !v)}
+                        className={`flex items-center gap-2 border-l border-slate-800 pl-4 text-[9px] font-black uppercase ${showRefinerDiff ? 'text-amber-200' : 'text-slate-600 hover:text-slate-400'}`}
+                        title="Show what the refiner changed in each chunk"
+                    >
+                        <GitCompare className={`w-3 h-3 ${showRefinerDiff ? 'text-amber-400' : ''}`} /> Refiner Diff{refinedChunkCount > 0 ? ` (${refinedChunkCount})` : ''}
+                    </button>
+                    <button
+                        onClick={() => audioCapture.setEnabled(!audioCapture.enabled)}
+                        className={`flex items-center gap-2 border-l border-slate-800 pl-4 text-[9px] font-black uppercase ${audioCapture.error ? 'text-red-300' : audioCapture.enabled ? 'text-amber-200' : 'text-slate-600 hover:text-slate-400'}`}
+                        title={audioCapture.error || (audioCapture.enabled ? 'Recorded and uploaded audio is kept with the session' : 'Keep recorded and uploaded audio with the session for playback')}
+                    >
+                        {audioCapture.error
+                            ? <AlertTriangle className="w-3 h-3 text-red-400" />
+                            : <Mic className={`w-3 h-3 ${audioCapture.isCapturing ? 'text-red-400 animate-pulse' : audioCapture.enabled ? 'text-amber-400' : ''}`} />}
+                        Keep Audio{playback.audioBytes > 0 ? ` (${formatBytes(playback.audioBytes)})` : ''}
+                    </button>
+                    <div className="flex items-center gap-1 border-l border-slate-800 pl-4">
+                        <button
+                            onClick={handleUndo}
+                            disabled={!nextUndo}
+                            className="p-1 rounded text-slate-400 hover:text-white disabled:text-slate-700 transition-colors"
+                            title={nextUndo ? `Undo ${ORIGIN_LABELS[nextUndo.origin]} (Ctrl+Z)` : 'Nothing to undo'}
+                        >
+                            <Undo2 className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                            onClick={handleRedo}
+                            disabled={!nextRedo}
+                            className="p-1 rounded text-slate-400 hover:text-white disabled:text-slate-700 transition-colors"
+                            title={nextRedo ? `Redo ${ORIGIN_LABELS[nextRedo.origin]} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                        >
+                            <Redo2 className="w-3.5 h-3.5" />
+                        </button>
+                        {nextUndo && <span className="hidden md:inline text-[9px] font-black uppercase text-slate-500">{ORIGIN_LABELS[nextUndo.origin]}</span>}
+                    </div>
                 </div>
             </div>
 
+            <SpeakerBar
+                speakers={speakers}
+                activeSpeakerId={activeSpeakerId}
+                onActivate={switchSpeaker}
+                onRename={renameSpeaker}
+                onAdd={addSpeaker}
+            />
+
+            {referenceIndex.passages.length > 0 && auditSegmentId && (
+                <ReferencePassages
+                    hits={passageLog[auditSegmentId] || []}
+                    passageCount={referenceIndex.passages.length}
+                    scope={activeSegmentId ? 'selected' : 'latest'}
+                />
+            )}
+
+            {playback.takes.length > 0 && (
+                <PlayerBar
+                    takes={playback.takes}
+                    positionMs={playback.positionMs}
+                    isPlaying={playback.isPlaying}
+                    rate={playback.rate}
+                    onToggle={playback.toggle}
+                    onStop={playback.stop}
+                    onSkip={playback.skip}
+                    onSeek={(offsetMs) => playback.seek(offsetMs, playback.isPlaying)}
+                    onRateChange={playback.setRate}
+                />
+            )}
+
+            <TranscriptionProgress
+                job={transcription.job}
+                isRunning={transcription.isRunning}
+                isDecoding={transcription.isDecoding}
+                hasAudio={transcription.hasAudio}
+                error={transcription.error}
+                onResume={transcription.resume}
+                onCancel={transcription.cancel}
+                onDiscard={transcription.discard}
+            />
+
             <main className="flex-1 flex flex-col md:flex-row min-h-0 w-full p-4 md:p-8 gap-4 md:gap-8 overflow-hidden">
                 <TranscriptArea 
                     ref={englishRef} 
-                    title="Source (Original)" 
-                    text={text} 
+                    title={`Source (${sourceLang.name})`} 
+                    items={sourceItems} 
+                    tailText={pendingText} 
                     interimText={interimText} 
-                    onChange={setText} 
+                    onEditItem={handleEditSource} 
                     accentColor="blue" 
                     onSyncScroll={(p) => handleScrollSync('english', p)} 
+                    activeItemId={activeSegmentId} 
+                    revealItemId={pinnedSegment?.from === 'target' ? pinnedSegment.id : null} 
+                    onHoverItem={setHoveredSegmentId} 
+                    onSelectItem={(id) => selectSegment(id, 'source')} 
+                    onRevertItem={handleRevertRefinement}
+                    onPlayItem={playSegmentAudio}
+                    playingItemId={playingSegmentId}
+                    isAudioPlaying={playback.isPlaying}
                     badge={isRefining ? <span className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-[8px] font-black uppercase animate-pulse">Syncing</span> : null}
                 />
                 <TranscriptArea 
                     ref={vietnameseRef} 
-                    title="Interpretation (Archive)" 
-                    text={translatedText} 
-                    interimText={isTranslating ? "Streaming Translation..." : ""} 
-                    onChange={setTranslatedText} 
+                    title={`Interpretation (${targetLang.name})`} 
+                    items={targetItems} 
+                    interimText={streamingTranslation} 
+                    onEditItem={handleEditTranslation} 
                     accentColor="emerald" 
                     enableTTS={true} 
                     isTTSActive={ttsEnabled} 
                     onToggleTTS={() => setTtsEnabled(!ttsEnabled)} 
                     onSyncScroll={(p) => handleScrollSync('vietnamese', p)} 
+                    activeItemId={activeSegmentId} 
+                    revealItemId={pinnedSegment?.from === 'source' ? pinnedSegment.id : null} 
+                    onHoverItem={setHoveredSegmentId} 
+                    onSelectItem={(id) => selectSegment(id, 'target')} 
+                    onPlayItem={playSegmentAudio}
+                    playingItemId={playingSegmentId}
+                    isAudioPlaying={playback.isPlaying}
+                    footer={ttsEnabled && reader.isSupported ? (
+                        <ReaderControls
+                            voices={reader.voices}
+                            prefs={reader.prefs}
+                            onPrefsChange={reader.updatePrefs}
+                            currentLine={reader.currentLine}
+                            queueLength={reader.queueLength}
+                            isHeld={reader.isHeld}
+                            onSkip={reader.skip}
+                            onReplay={reader.replay}
+                        />
+                    ) : null}
                 />
             </main>
             
@@ -498,11 +1098,23 @@ function App() {
                 <div className="max-w-4xl mx-auto flex items-center justify-between">
                     <div className="hidden lg:flex items-center gap-3">
                         <div className="relative group">
-                            <input type="file" onChange={handleAudioBatchUpload} className="absolute inset-0 opacity-0 cursor-pointer" accept="audio/*" />
+                            <input type="file" onChange={handleAudioBatchUpload} disabled={transcription.isRunning || transcription.isDecoding} className="absolute inset-0 opacity-0 cursor-pointer disabled:cursor-wait" accept="audio/*,video/*" />
                             <button className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-[10px] font-black uppercase border border-slate-200 hover:bg-blue-50 transition-all flex items-center gap-2">
-                                <Upload className="w-3.5 h-3.5" /> Audio Transcribe
+                                <Upload className="w-3.5 h-3.5" /> Audio / Video Transcribe
                             </button>
                         </div>
+                        <label className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-slate-400 cursor-pointer" title="Attribute uploaded audio to speakers">
+                            <input type="checkbox" checked={diarizeUploads} onChange={(e) => setDiarizeUploads(e.target.checked)} className="accent-blue-600" />
+                            Speakers
+                        </label>
+                        {videoSource && (
+                            <button onClick={() => setIsVideoOpen(true)} className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-[10px] font-black uppercase border border-slate-200 hover:bg-blue-50 transition-all flex items-center gap-2" title="Watch the video with bilingual captions">
+                                <Film className="w-3.5 h-3.5" /> Preview
+                            </button>
+                        )}
+                        <button onClick={() => setIsBatchOpen(true)} className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-[10px] font-black uppercase border border-slate-200 hover:bg-blue-50 transition-all flex items-center gap-2" title="Transcribe and translate several files into new sessions">
+                            {batch.isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin text-blue-600" /> : <Layers className="w-3.5 h-3.5" />} Batch
+                        </button>
                         <NetworkStatus />
                     </div>
                     
@@ -511,16 +1123,16 @@ function App() {
                       onStart={startRecording} 
                       onPause={pauseRecording} 
                       onStop={stopRecording} 
-                      onClear={() => { clearTranscript(); refinedRef.current = 0; processedRef.current = 0; }} 
-                      onSave={() => { saveCurrentToStorage(); alert("Session Saved."); }} 
-                      onOptimize={() => performTranslation(true)} 
+                      onClear={handleClear} 
+                      onSave={async () => { if (await saveCurrentToStorage()) alert("Session Saved."); }} 
+                      onOptimize={flushPendingText} 
                       isOptimizing={isTranslating} 
                       hasText={text.length > 0} 
                     />
                     
                     <div className="hidden lg:flex flex-col items-end gap-1">
                       <div className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">Velocity: {velocity} cps</div>
-                      <div className="text-[9px] text-slate-300 font-bold uppercase tracking-tighter">Fidelity Guard Active</div>
+                      <div className="text-[9px] text-slate-300 font-bold uppercase tracking-tighter">{aiSettings.refineTranscript ? 'Fidelity Guard Active' : 'Verbatim Mode'}</div>
                     </div>
                 </div>
             </footer>
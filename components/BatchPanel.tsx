@@ -0,0 +1,161 @@
+
+import React, { useRef } from 'react';
+import { Layers, X, Upload, Loader2, Check, AlertTriangle, Ban, Clock, FolderOpen, FileAudio, FileVideo } from 'lucide-react';
+import { BatchJob, BatchStage } from '../services/batchPipeline';
+import { isFinishedStage } from '../hooks/useBatchQueue';
+import { formatBytes } from '../utils/bytes';
+
+interface BatchPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  jobs: BatchJob[];
+  busySessionIds: string[];
+  pairLabel: string;
+  diarize: boolean;
+  onDiarizeChange: (diarize: boolean) => void;
+  canProcess: boolean; // False without an AI engine
+  onAddFiles: (files: File[]) => void;
+  onCancel: (id: string) => void;
+  onClearFinished: () => void;
+  onOpenSession: (id: string) => void;
+}
+
+const STAGE_LABELS: Record<BatchStage, string> = {
+  queued: 'Queued',
+  decoding: 'Decoding',
+  transcribing: 'Transcribing',
+  refining: 'Refining',
+  translating: 'Translating',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const stageIcon = (stage: BatchStage) => {
+  switch (stage) {
+    case 'queued': return <Clock className="w-3.5 h-3.5 text-slate-400" />;
+    case 'done': return <Check className="w-3.5 h-3.5 text-emerald-600" />;
+    case 'failed': return <AlertTriangle className="w-3.5 h-3.5 text-red-500" />;
+    case 'cancelled': return <Ban className="w-3.5 h-3.5 text-slate-400" />;
+    default: return <Loader2 className="w-3.5 h-3.5 text-blue-600 animate-spin" />;
+  }
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  isOpen,
+  onClose,
+  jobs,
+  busySessionIds,
+  pairLabel,
+  diarize,
+  onDiarizeChange,
+  canProcess,
+  onAddFiles,
+  onCancel,
+  onClearFinished,
+  onOpenSession
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  const finishedCount = jobs.filter(j => isFinishedStage(j.stage)).length;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-2xl h-[80vh] rounded-[32px] shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
+        <div className="px-6 md:px-8 py-5 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-600 rounded-xl flex items-center justify-center text-white shadow-lg">
+              <Layers className="w-5 h-5" />
+            </div>
+            <div>
+              <h2 className="text-lg font-black uppercase tracking-tight">Batch Processing</h2>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Transcribe, refine and translate · {pairLabel}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 md:p-6 border-b border-slate-100 space-y-3">
+          <button
+            onClick={() => inputRef.current?.click()}
+            disabled={!canProcess}
+            className="w-full py-4 border-2 border-dashed border-slate-200 rounded-2xl flex items-center justify-center gap-2 text-slate-400 hover:text-blue-600 hover:border-blue-200 hover:bg-blue-50/30 transition-all font-black text-xs uppercase tracking-widest disabled:opacity-50 disabled:pointer-events-none"
+          >
+            <Upload className="w-4 h-4" /> Add Audio or Video Files
+          </button>
+          <input ref={inputRef} type="file" multiple accept="audio/*,video/*" onChange={handleFiles} className="hidden" />
+          <div className="flex items-center justify-between gap-4">
+            <label className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-slate-400 cursor-pointer" title="Attribute each file's speech to speakers">
+              <input type="checkbox" checked={diarize} onChange={(e) => onDiarizeChange(e.target.checked)} className="accent-blue-600" />
+              Speakers
+            </label>
+            <p className="text-[10px] font-bold text-slate-400">
+              {canProcess ? 'Each file becomes its own session in the Vault, using the current context and references.' : 'Configure an AI engine to process files.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 md:p-6 space-y-2">
+          {jobs.length === 0 ? (
+            <div className="h-full flex flex-col items-center justify-center text-slate-300 gap-2 opacity-60 italic">
+              <Layers className="w-12 h-12 mb-2" />
+              <p className="text-sm font-bold uppercase tracking-widest">No files queued</p>
+            </div>
+          ) : jobs.map(job => {
+            const isActive = !isFinishedStage(job.stage) && job.stage !== 'queued';
+            return (
+              <div key={job.id} className="p-3 rounded-2xl border border-slate-100 bg-white space-y-2">
+                <div className="flex items-center gap-3">
+                  <div className="w-9 h-9 rounded-xl bg-slate-50 text-slate-400 flex items-center justify-center shrink-0">
+                    {job.file.type.startsWith('video/') ? <FileVideo className="w-4 h-4" /> : <FileAudio className="w-4 h-4" />}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <h3 className="text-xs font-black text-slate-800 truncate" title={job.file.name}>{job.file.name}</h3>
+                    <div className="flex items-center gap-2 mt-0.5 text-[9px] font-black uppercase tracking-tighter text-slate-400">
+                      {stageIcon(job.stage)}
+                      <span>{STAGE_LABELS[job.stage]}{isActive && job.total > 1 ? ` ${Math.min(job.done + 1, job.total)}/${job.total}` : ''}</span>
+                      <span>· {formatBytes(job.file.size)}</span>
+                    </div>
+                  </div>
+                  {job.sessionId && isFinishedStage(job.stage) && !busySessionIds.includes(job.sessionId) && (
+                    <button onClick={() => onOpenSession(job.sessionId!)} className="flex items-center gap-1 px-3 py-1.5 rounded-xl bg-blue-50 text-blue-700 text-[9px] font-black uppercase tracking-widest hover:bg-blue-100 transition-colors" title="Open the session">
+                      <FolderOpen className="w-3 h-3" /> Open
+                    </button>
+                  )}
+                  {!isFinishedStage(job.stage) && (
+                    <button onClick={() => onCancel(job.id)} className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all" title={job.stage === 'queued' ? 'Remove from the queue' : 'Cancel; finished work is kept in its session'}>
+                      <Ban className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                {isActive && (
+                  <div className="h-1 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 rounded-full transition-all" style={{ width: `${job.total > 0 ? (job.done / job.total) * 100 : 0}%` }} />
+                  </div>
+                )}
+                {job.error && <p className="text-[11px] font-bold text-red-600">{job.error}</p>}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-8 py-4 bg-slate-50 border-t border-slate-100 flex items-center justify-between text-[9px] text-slate-400 font-bold uppercase tracking-widest">
+          <span>Files are processed one at a time.</span>
+          <button onClick={onClearFinished} disabled={finishedCount === 0} className="hover:text-slate-600 disabled:opacity-40 transition-colors">
+            Clear finished ({finishedCount})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
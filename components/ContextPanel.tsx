@@ -1,39 +1,80 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { FileText, Upload, X, ChevronDown, ChevronUp, Info, FileUp, Save, CheckCircle, Loader2, FileType, Mic, MicOff } from 'lucide-react';
-import * as mammoth from 'mammoth';
-import * as pdfjsLib from 'pdfjs-dist';
+import { FileText, Upload, X, ChevronDown, ChevronUp, Info, FilePlus, Save, CheckCircle, Loader2, FileType, Mic, MicOff, ToggleLeft, ToggleRight, Presentation, FileSpreadsheet, FileCode, Captions, AlertTriangle, BookMarked, ScanText } from 'lucide-react';
+import { GlossaryTerm, ReferenceDocument, ReferencePageQuality } from '../types';
+import { GlossaryEditor } from './GlossaryEditor';
+import { PAGE_BREAK } from '../services/referenceIndex';
+import { extractReference, OcrReader } from '../services/referenceExtract';
+import { mergeGlossary } from '../services/glossary';
+import { createReference, REFERENCE_ACCEPT } from '../utils/references';
+import { formatBytes } from '../utils/bytes';
 
-// Handle ESM default export interop for pdfjs-dist
-const pdfJs = (pdfjsLib as any).default || pdfjsLib;
+// Reference text is indexed for retrieval rather than sent whole, so long briefing packs are fine.
+const MAX_REFERENCE_BYTES = 50 * 1024 * 1024;
 
-// Configure PDF Worker
-if (pdfJs.GlobalWorkerOptions) {
-  pdfJs.GlobalWorkerOptions.workerSrc = 'https://esm.sh/pdfjs-dist@3.11.174/build/pdf.worker.min.js';
-}
+const METHOD_LABELS: Record<ReferencePageQuality['method'], string> = { text: 'Text layer', ocr: 'OCR', none: 'No text' };
+
+const confidenceColor = (confidence: number) => confidence >= 0.8 ? 'bg-emerald-500' : confidence >= 0.5 ? 'bg-amber-400' : 'bg-red-500';
+
+// One bar per page, so a scan with a few unreadable pages stands out at a glance.
+const PageQualityStrip: React.FC<{ pages: ReferencePageQuality[] }> = ({ pages }) => {
+  const ocrCount = pages.filter(p => p.method === 'ocr').length;
+  const unreadable = pages.filter(p => p.confidence < 0.5).length;
+  const average = pages.reduce((sum, p) => sum + p.confidence, 0) / (pages.length || 1);
+  return (
+    <div className="mt-1 space-y-0.5">
+      <div className="flex flex-wrap gap-px max-w-[220px]">
+        {pages.map((page, i) => (
+          <span
+            key={i}
+            className={`w-1 h-2.5 rounded-sm ${confidenceColor(page.confidence)} ${page.method === 'ocr' ? 'opacity-60' : ''}`}
+            title={`Page ${i + 1} · ${METHOD_LABELS[page.method]} · ${Math.round(page.confidence * 100)}%`}
+          />
+        ))}
+      </div>
+      <span className="block text-[9px] font-bold uppercase tracking-tighter text-slate-400">
+        {Math.round(average * 100)}% readable
+        {ocrCount > 0 && ` · ${ocrCount} OCR`}
+        {unreadable > 0 && <span className="text-red-500"> · {unreadable} unreadable</span>}
+      </span>
+    </div>
+  );
+};
 
 interface ContextPanelProps {
+  sessionId: string | null;
   initialDescription?: string;
-  initialFileName?: string;
-  initialFileContent?: string;
-  onContextChange: (description: string, fileContent: string, fileName: string) => void;
+  initialReferences?: ReferenceDocument[];
+  onContextChange: (description: string, references: ReferenceDocument[]) => void;
+  glossary: GlossaryTerm[];
+  onGlossaryChange: (terms: GlossaryTerm[]) => void; // Applied immediately, shared by all sessions
+  ocr?: OcrReader; // Absent when no AI engine is set up
+  ocrOnUpload: boolean; // Otherwise scanned pages are only read when the user asks
 }
 
 export const ContextPanel: React.FC<ContextPanelProps> = ({ 
+    sessionId,
     initialDescription = '', 
-    initialFileName = '', 
-    initialFileContent = '', 
-    onContextChange 
+    initialReferences = [], 
+    onContextChange,
+    glossary,
+    onGlossaryChange,
+    ocr,
+    ocrOnUpload
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   
   // Local state for editing
   const [description, setDescription] = useState(initialDescription);
-  const [fileName, setFileName] = useState<string | null>(initialFileName || null);
-  const [fileContent, setFileContent] = useState(initialFileContent);
-  const [fileType, setFileType] = useState<string>('');
+  const [references, setReferences] = useState<ReferenceDocument[]>(initialReferences);
+  const [failures, setFailures] = useState<{ name: string; reason: string }[]>([]);
+  // Glossary-shaped tables found in files added since the panel was opened, by document id.
+  const [detectedTerms, setDetectedTerms] = useState<Record<string, GlossaryTerm[]>>({});
+  // PDFs with pages left unread, kept so OCR can be run on them later, by document id.
+  const [scannedFiles, setScannedFiles] = useState<Record<string, File>>({});
   
   const [isProcessing, setIsProcessing] = useState(false);
+  const [parseProgress, setParseProgress] = useState('');
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saved'>('idle');
   
   // Dictation state
@@ -42,19 +83,18 @@ export const ContextPanel: React.FC<ContextPanelProps> = ({
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Sync with props when session changes
+  // Sync with props when session changes or the context is applied
   useEffect(() => {
     setDescription(initialDescription);
-    setFileName(initialFileName || null);
-    setFileContent(initialFileContent);
-    // Infer file type from name
-    if (initialFileName) {
-        const ext = initialFileName.split('.').pop()?.toLowerCase() || '';
-        setFileType(ext);
-    } else {
-        setFileType('');
-    }
-  }, [initialDescription, initialFileName, initialFileContent]);
+    setReferences(initialReferences);
+  }, [initialDescription, initialReferences]);
+
+  // Per-file offers outlive Apply Context, which echoes the references back as props.
+  useEffect(() => {
+    setFailures([]);
+    setDetectedTerms({});
+    setScannedFiles({});
+  }, [sessionId]);
 
   // Handle Voice Dictation for Description
   const toggleDictation = useCallback(() => {
@@ -115,89 +155,112 @@ export const ContextPanel: React.FC<ContextPanelProps> = ({
     setSaveStatus('idle');
   };
 
-  const extractTextFromPdf = async (file: File): Promise<string> => {
-    try {
-        const arrayBuffer = await file.arrayBuffer();
-        const pdf = await pdfJs.getDocument({ data: arrayBuffer }).promise;
-        let fullText = '';
-        const maxPages = Math.min(pdf.numPages, 10); // Reference up to 10 pages
-        
-        for (let i = 1; i <= maxPages; i++) {
-            const page = await pdf.getPage(i);
-            const textContent = await page.getTextContent();
-            const pageText = textContent.items.map((item: any) => item.str).join(' ');
-            fullText += pageText + '\n';
-        }
-        return fullText;
-    } catch (e) {
-        console.error("PDF Parse Error", e);
-        throw new Error("Failed to parse PDF");
-    }
-  };
-
+  // Files are read one at a time; one that fails does not stop the rest.
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    if (file.size > 10 * 1024 * 1024) { 
-        alert("File is too large. Please upload a file under 10MB.");
-        return;
-    }
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
 
     setIsProcessing(true);
     setSaveStatus('idle');
+    const failed: { name: string; reason: string }[] = [];
+    const added: ReferenceDocument[] = [];
+    const found: Record<string, GlossaryTerm[]> = {};
+    const scanned: Record<string, File> = {};
 
-    try {
-        let text = '';
-        const name = file.name.toLowerCase();
-
-        if (name.endsWith('.docx')) {
-            const arrayBuffer = await file.arrayBuffer();
-            const result = await mammoth.extractRawText({ arrayBuffer });
-            text = result.value;
-            setFileType('docx');
-        } else if (name.endsWith('.pdf')) {
-            text = await extractTextFromPdf(file);
-            setFileType('pdf');
-        } else {
-            text = await file.text();
-            setFileType('txt');
+    for (const [i, file] of files.entries()) {
+        const prefix = files.length > 1 ? `File ${i + 1}/${files.length}` : '';
+        setParseProgress(prefix);
+        if (file.size > MAX_REFERENCE_BYTES) {
+            failed.push({ name: file.name, reason: 'Larger than 50MB.' });
+            continue;
+        }
+        try {
+            const { text, glossary: terms, pages } = await extractReference(file, label => setParseProgress([prefix, label].filter(Boolean).join(' · ')), ocrOnUpload ? ocr : undefined);
+            if (!text.replace(/\f/g, '').trim() && !ocr) throw new Error('No text layer. Set up an AI engine to read scanned pages.');
+            const doc = { ...createReference(file.name, file.size, text), ...(pages ? { pages } : {}) };
+            added.push(doc);
+            if (terms.length > 0) found[doc.id] = terms;
+            if (ocr && pages?.some(p => p.method === 'none')) scanned[doc.id] = file;
+        } catch (err: any) {
+            console.error("Error reading file", file.name, err);
+            failed.push({ name: file.name, reason: err?.message || 'Could not be read.' });
         }
-
-        setFileName(file.name);
-        setFileContent(text);
-    } catch (err) {
-        console.error("Error reading file", err);
-        alert("Failed to read file.");
-        setFileName(null);
-        setFileContent('');
-    } finally {
-        setIsProcessing(false);
     }
+
+    setReferences(prev => [...prev, ...added]);
+    setDetectedTerms(prev => ({ ...prev, ...found }));
+    setScannedFiles(prev => ({ ...prev, ...scanned }));
+    setFailures(failed);
+    setIsProcessing(false);
+    setParseProgress('');
+  };
+
+  // Reads the file again, this time sending pages without a text layer to the model.
+  const runOcr = async (docId: string) => {
+      const file = scannedFiles[docId];
+      if (!file || !ocr) return;
+      setIsProcessing(true);
+      try {
+          const { text, pages } = await extractReference(file, setParseProgress, ocr);
+          updateReference(docId, { text, pages });
+          setScannedFiles(prev => {
+              const { [docId]: _, ...rest } = prev;
+              return rest;
+          });
+      } catch (err: any) {
+          console.error("OCR failed", file.name, err);
+          setFailures([{ name: file.name, reason: err?.message || 'OCR failed.' }]);
+      }
+      setIsProcessing(false);
+      setParseProgress('');
+  };
+
+  // Spreadsheets with source/target columns can also seed the shared glossary.
+  const importDetectedTerms = (docId: string) => {
+      onGlossaryChange(mergeGlossary(glossary, detectedTerms[docId] || []).terms);
+      setDetectedTerms(prev => {
+          const { [docId]: _, ...rest } = prev;
+          return rest;
+      });
+  };
+
+  const updateReference = (id: string, patch: Partial<ReferenceDocument>) => {
+      setReferences(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+      setSaveStatus('idle');
   };
 
-  const clearFile = (e: React.MouseEvent) => {
-      e.stopPropagation();
-      setFileName(null);
-      setFileContent('');
-      setFileType('');
-      if (fileInputRef.current) fileInputRef.current.value = '';
+  const removeReference = (id: string) => {
+      setReferences(prev => prev.filter(r => r.id !== id));
       setSaveStatus('idle');
   };
 
   const handleSave = () => {
       if (isDictating) recognitionRef.current?.stop();
-      onContextChange(description, fileContent, fileName || '');
+      onContextChange(description, references);
       setSaveStatus('saved');
       setTimeout(() => setSaveStatus('idle'), 2000);
   };
 
-  const getFileIcon = () => {
-      if (fileType === 'pdf') return <FileType className="w-4 h-4 text-red-500 shrink-0" />;
-      if (fileType === 'docx') return <FileText className="w-4 h-4 text-blue-600 shrink-0" />;
+  const getFileIcon = (type: ReferenceDocument['type']) => {
+      if (type === 'pdf') return <FileType className="w-4 h-4 text-red-500 shrink-0" />;
+      if (type === 'docx') return <FileText className="w-4 h-4 text-blue-600 shrink-0" />;
+      if (type === 'pptx') return <Presentation className="w-4 h-4 text-orange-500 shrink-0" />;
+      if (type === 'xlsx' || type === 'csv') return <FileSpreadsheet className="w-4 h-4 text-emerald-600 shrink-0" />;
+      if (type === 'html' || type === 'md') return <FileCode className="w-4 h-4 text-violet-500 shrink-0" />;
+      if (type === 'srt' || type === 'vtt') return <Captions className="w-4 h-4 text-amber-500 shrink-0" />;
       return <FileText className="w-4 h-4 text-slate-500 shrink-0" />;
   };
 
+  const describeReference = (doc: ReferenceDocument) => [
+      doc.type,
+      formatBytes(doc.size),
+      ...(doc.text.includes(PAGE_BREAK) ? [`${doc.text.split(PAGE_BREAK).length} ${doc.type === 'pptx' ? 'slides' : doc.type === 'xlsx' ? 'sheets' : 'pages'}`] : []),
+      `${doc.text.length.toLocaleString()} chars`,
+  ].join(' · ');
+
+  const enabledCount = references.filter(r => r.enabled).length;
+
   return (
     <div className="bg-white border-b border-slate-200 transition-all duration-300 shadow-sm relative z-20 shrink-0">
       <div 
@@ -207,9 +270,14 @@ export const ContextPanel: React.FC<ContextPanelProps> = ({
         <div className="flex items-center gap-2 md:gap-3 text-[10px] md:text-sm font-black uppercase tracking-widest text-slate-600">
             <Info className="w-3.5 h-3.5 md:w-4 md:h-4 text-blue-600" />
             <span className="truncate">Context & Reference Materials</span>
-            {fileName && (
+            {enabledCount > 0 && (
                  <span className="ml-2 px-2 py-0.5 bg-blue-50 text-blue-600 rounded-lg text-[8px] border border-blue-100 hidden sm:inline">
-                    Active: {fileName}
+                    {enabledCount} Active {enabledCount === 1 ? 'Reference' : 'References'}
+                </span>
+            )}
+            {glossary.length > 0 && (
+                 <span className="px-2 py-0.5 bg-slate-50 text-slate-500 rounded-lg text-[8px] border border-slate-100 hidden sm:inline">
+                    {glossary.length} Terms
                 </span>
             )}
         </div>
@@ -246,56 +314,112 @@ export const ContextPanel: React.FC<ContextPanelProps> = ({
                 />
             </div>
 
-            {/* File Upload */}
+            {/* Reference Files */}
             <div className="space-y-1.5 md:space-y-2 flex flex-col">
                 <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] flex items-center gap-1">
-                    Reference File (PDF/Word)
+                    Reference Files
+                    {references.length > 0 && <span className="ml-1 px-1.5 py-0.5 rounded bg-slate-100 text-slate-400 tracking-normal">{enabledCount}/{references.length}</span>}
                 </label>
-                <div className="flex-1 min-h-[96px] md:min-h-[128px] w-full border-2 border-dashed border-slate-200 rounded-xl flex flex-col items-center justify-center bg-slate-50 hover:bg-blue-50/50 transition-all relative group">
+                {references.length > 0 && (
+                    <div className="max-h-44 overflow-y-auto custom-scrollbar space-y-1.5 pr-1">
+                        {references.map(doc => (
+                            <div key={doc.id} className={`flex items-center gap-2 px-3 py-2 bg-white border rounded-xl shadow-sm transition-all ${doc.enabled ? 'border-blue-100' : 'border-slate-100 opacity-50'}`}>
+                                {getFileIcon(doc.type)}
+                                <div className="flex flex-col min-w-0 text-left">
+                                    <span className="text-[11px] font-bold text-slate-700 truncate" title={doc.name}>{doc.name}</span>
+                                    <span className="text-[9px] text-slate-400 uppercase font-bold tracking-tighter">{describeReference(doc)}</span>
+                                    {doc.pages && <PageQualityStrip pages={doc.pages} />}
+                                </div>
+                                {scannedFiles[doc.id] && (
+                                    <button
+                                        onClick={() => runOcr(doc.id)}
+                                        disabled={isProcessing}
+                                        className="flex items-center gap-1 ml-auto px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest bg-amber-50 text-amber-700 hover:bg-amber-100 transition-all shrink-0 disabled:opacity-50"
+                                        title="Send the pages without a text layer to the AI engine as images"
+                                    >
+                                        <ScanText className="w-3 h-3" /> OCR {doc.pages?.filter(p => p.method === 'none').length} pages
+                                    </button>
+                                )}
+                                {detectedTerms[doc.id] && (
+                                    <button
+                                        onClick={() => importDetectedTerms(doc.id)}
+                                        className={`flex items-center gap-1 ${scannedFiles[doc.id] ? '' : 'ml-auto'} px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest bg-emerald-50 text-emerald-700 hover:bg-emerald-100 transition-all shrink-0`}
+                                        title="This table has source and target columns"
+                                    >
+                                        <BookMarked className="w-3 h-3" /> Add {detectedTerms[doc.id].length} terms
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => updateReference(doc.id, { enabled: !doc.enabled })}
+                                    className={`p-1 ${detectedTerms[doc.id] || scannedFiles[doc.id] ? '' : 'ml-auto'} rounded-lg transition-colors ${doc.enabled ? 'text-blue-600 hover:bg-blue-50' : 'text-slate-400 hover:bg-slate-100'}`}
+                                    title={doc.enabled ? 'Used for refinement and interpretation' : 'Ignored until enabled'}
+                                >
+                                    {doc.enabled ? <ToggleRight className="w-5 h-5" /> : <ToggleLeft className="w-5 h-5" />}
+                                </button>
+                                <button onClick={() => removeReference(doc.id)} className="p-1.5 hover:bg-red-50 rounded-lg text-slate-400 hover:text-red-500 transition-colors" title="Remove">
+                                    <X className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <div className={`flex-1 w-full border-2 border-dashed border-slate-200 rounded-xl flex flex-col items-center justify-center bg-slate-50 hover:bg-blue-50/50 transition-all relative group ${references.length > 0 ? 'min-h-[56px]' : 'min-h-[96px] md:min-h-[128px]'}`}>
                     {isProcessing ? (
                          <div className="flex flex-col items-center gap-2 text-blue-600">
                             <Loader2 className="w-5 h-5 md:w-6 md:h-6 animate-spin" />
-                            <span className="text-[10px] font-bold uppercase tracking-widest">Parsing...</span>
+                            <span className="text-[10px] font-bold uppercase tracking-widest">{parseProgress || 'Parsing...'}</span>
                          </div>
-                    ) : !fileName ? (
+                    ) : (
                         <>
                             <input 
                                 type="file" 
                                 ref={fileInputRef}
                                 onChange={handleFileUpload}
-                                accept=".txt,.md,.csv,.docx,.pdf,.doc"
+                                accept={REFERENCE_ACCEPT}
+                                multiple
                                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
                             />
-                            <div className="flex flex-col items-center gap-1.5 text-slate-400 group-hover:text-blue-500 transition-colors">
-                                <Upload className="w-6 h-6 md:w-8 md:h-8 mb-0.5" />
-                                <p className="text-[10px] font-black uppercase tracking-widest">Select File</p>
-                            </div>
-                        </>
-                    ) : (
-                        <div className="flex flex-col items-center w-full px-4 text-center">
-                            <div className="flex items-center gap-2 px-3 py-2 bg-white border border-blue-100 rounded-xl shadow-sm w-full max-w-[240px]">
-                                {getFileIcon()}
-                                <div className="flex flex-col min-w-0 text-left">
-                                    <span className="text-[11px] font-bold text-slate-700 truncate">{fileName}</span>
-                                    <span className="text-[9px] text-slate-400 uppercase font-bold tracking-tighter">{fileContent.length} chars referenced</span>
+                            {references.length > 0 ? (
+                                <div className="flex items-center gap-1.5 text-slate-400 group-hover:text-blue-500 transition-colors">
+                                    <FilePlus className="w-4 h-4" />
+                                    <p className="text-[10px] font-black uppercase tracking-widest">Add Files</p>
                                 </div>
-                                <button onClick={clearFile} className="p-1.5 ml-auto hover:bg-red-50 rounded-lg text-slate-400 hover:text-red-500 transition-colors">
-                                    <X className="w-3.5 h-3.5" />
-                                </button>
-                            </div>
-                            <p className="mt-1.5 text-[9px] text-emerald-600 font-black uppercase tracking-widest flex items-center gap-1">
-                                <CheckCircle className="w-3 h-3" />
-                                Active Reference
-                            </p>
-                        </div>
+                            ) : (
+                                <div className="flex flex-col items-center gap-1.5 text-slate-400 group-hover:text-blue-500 transition-colors">
+                                    <Upload className="w-6 h-6 md:w-8 md:h-8 mb-0.5" />
+                                    <p className="text-[10px] font-black uppercase tracking-widest">Select Files</p>
+                                </div>
+                            )}
+                        </>
                     )}
                 </div>
+                {failures.length > 0 && (
+                    <div className="p-2.5 bg-red-50 border border-red-100 rounded-xl space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-[9px] font-black uppercase tracking-widest text-red-600 flex items-center gap-1">
+                                <AlertTriangle className="w-3 h-3" /> {failures.length} {failures.length === 1 ? 'file' : 'files'} not added
+                            </span>
+                            <button onClick={() => setFailures([])} className="p-0.5 text-red-300 hover:text-red-600 transition-colors" title="Dismiss">
+                                <X className="w-3 h-3" />
+                            </button>
+                        </div>
+                        {failures.map((f, i) => (
+                            <p key={i} className="text-[11px] text-red-700 truncate" title={`${f.name}: ${f.reason}`}>
+                                <span className="font-bold">{f.name}</span> · {f.reason}
+                            </p>
+                        ))}
+                    </div>
+                )}
             </div>
           </div>
 
+          <div className="mt-6">
+            <GlossaryEditor terms={glossary} onChange={onGlossaryChange} />
+          </div>
+
           <div className="mt-6 flex flex-col sm:flex-row items-center justify-between border-t border-slate-100 pt-5 gap-4">
              <p className="text-[9px] md:text-[10px] text-slate-400 max-w-sm text-center sm:text-left font-medium leading-relaxed uppercase tracking-wider">
-                This context helps the AI correctly translate technical jargon and specific project names during the session.
+                This context helps the AI correctly translate technical jargon and specific project names during the session. Glossary edits apply at once to every session.
              </p>
              <button
                 onClick={handleSave}
@@ -0,0 +1,161 @@
+
+import React, { useState } from 'react';
+import { FileDown, X, Loader2, FileText, FileCode, Braces, Captions } from 'lucide-react';
+import { ExportFormat, ExportSections, DEFAULT_EXPORT_SECTIONS } from '../services/sessionExport';
+import { SubtitleTrack } from '../utils/subtitles';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  sections: ExportSections;
+  track: SubtitleTrack; // Subtitle formats only
+}
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sourceName: string;
+  targetName: string;
+  canSummarize: boolean;
+  onExport: (options: ExportOptions) => Promise<void>;
+}
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string; hint: string; icon: React.ReactNode }[] = [
+  { format: 'docx', label: 'Bilingual DOCX', hint: 'Side-by-side table', icon: <FileText className="w-4 h-4" /> },
+  { format: 'markdown', label: 'Markdown', hint: 'Plain text with table', icon: <FileCode className="w-4 h-4" /> },
+  { format: 'json', label: 'Session JSON', hint: 'Full fidelity, re-importable', icon: <Braces className="w-4 h-4" /> },
+  { format: 'srt', label: 'SRT', hint: 'Subtitles', icon: <Captions className="w-4 h-4" /> },
+  { format: 'vtt', label: 'WebVTT', hint: 'Subtitles', icon: <Captions className="w-4 h-4" /> },
+];
+
+const SECTION_LABELS: { key: keyof ExportSections; label: string }[] = [
+  { key: 'summary', label: 'Summary' },
+  { key: 'context', label: 'Context' },
+  { key: 'glossary', label: 'Glossary' },
+  { key: 'reference', label: 'Reference' },
+  { key: 'source', label: 'Source' },
+  { key: 'target', label: 'Target' },
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, sourceName, targetName, canSummarize, onExport }) => {
+  const [format, setFormat] = useState<ExportFormat>('docx');
+  const [sections, setSections] = useState<ExportSections>(DEFAULT_EXPORT_SECTIONS);
+  const [track, setTrack] = useState<SubtitleTrack>('bilingual');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const isSubtitle = format === 'srt' || format === 'vtt';
+  const hasSections = format === 'docx' || format === 'markdown';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport({ format, sections: { ...sections, summary: sections.summary && canSummarize }, track });
+      onClose();
+    } catch (err: any) {
+      console.error("Export error", err);
+      setError(err?.message || 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <form onSubmit={handleSubmit} className="bg-white w-full max-w-lg rounded-[32px] shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
+        <div className="px-6 md:px-8 py-5 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-600 rounded-xl flex items-center justify-center text-white shadow-lg">
+              <FileDown className="w-5 h-5" />
+            </div>
+            <div>
+              <h2 className="text-lg font-black uppercase tracking-tight">Export Session</h2>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{sourceName} / {targetName}</p>
+            </div>
+          </div>
+          <button type="button" onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 md:p-8 space-y-6">
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {FORMAT_OPTIONS.map(opt => (
+              <button
+                key={opt.format}
+                type="button"
+                onClick={() => setFormat(opt.format)}
+                className={`flex flex-col items-start gap-1 p-3 rounded-2xl border text-left transition-all ${
+                  format === opt.format ? 'bg-blue-50 border-blue-200 ring-2 ring-blue-600/10 text-blue-700' : 'bg-white border-slate-100 text-slate-500 hover:border-blue-100'
+                }`}
+              >
+                {opt.icon}
+                <span className="text-[10px] font-black uppercase tracking-widest">{opt.label}</span>
+                <span className="text-[9px] text-slate-400 font-medium">{opt.hint}</span>
+              </button>
+            ))}
+          </div>
+
+          {hasSections && (
+            <div className="space-y-2 animate-in slide-in-from-top-2">
+              <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Include</label>
+              <div className="flex flex-wrap gap-2">
+                {SECTION_LABELS.map(({ key, label }) => {
+                  const unavailable = key === 'summary' && !canSummarize;
+                  return (
+                    <label
+                      key={key}
+                      className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest ${unavailable ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer'} ${
+                        sections[key] && !unavailable ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-500'
+                      }`}
+                      title={unavailable ? 'Summary needs an AI engine' : undefined}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={sections[key] && !unavailable}
+                        disabled={unavailable}
+                        onChange={(e) => setSections({ ...sections, [key]: e.target.checked })}
+                        className="accent-blue-600"
+                      />
+                      {label}
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {isSubtitle && (
+            <div className="space-y-1.5 animate-in slide-in-from-top-2">
+              <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Track</label>
+              <select
+                value={track}
+                onChange={(e) => setTrack(e.target.value as SubtitleTrack)}
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-medium outline-none focus:border-blue-500"
+              >
+                <option value="source">{sourceName}</option>
+                <option value="target">{targetName}</option>
+                <option value="bilingual">{sourceName} + {targetName} (dual line)</option>
+              </select>
+            </div>
+          )}
+
+          {format === 'json' && (
+            <p className="text-[11px] text-slate-500 leading-relaxed">Contains every segment, speaker, timestamp and the reference material, and can be imported back into the Vault.</p>
+          )}
+
+          {error && <p className="text-[11px] font-bold text-red-600">{error}</p>}
+        </div>
+
+        <div className="px-6 md:px-8 py-4 bg-slate-50 border-t border-slate-100 flex justify-end">
+          <button type="submit" disabled={isExporting} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-xl font-bold text-xs uppercase tracking-widest shadow-lg shadow-blue-500/20 disabled:opacity-60">
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />} Export
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
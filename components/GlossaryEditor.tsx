@@ -0,0 +1,136 @@
+
+import React, { useState, useRef } from 'react';
+import { Plus, Trash2, FileUp, ClipboardPaste, Download, Search, BookMarked, CaseSensitive, Ban } from 'lucide-react';
+import { GlossaryTerm } from '../types';
+import { createTerm, parseGlossaryTable, mergeGlossary, serializeGlossaryCsv } from '../services/glossary';
+import { downloadBlob } from '../utils/download';
+
+interface GlossaryEditorProps {
+  terms: GlossaryTerm[];
+  onChange: (terms: GlossaryTerm[]) => void;
+}
+
+export const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ terms, onChange }) => {
+  const [filter, setFilter] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const visible = terms.filter(t => {
+    const q = filter.trim().toLowerCase();
+    return !q || t.source.toLowerCase().includes(q) || t.target.toLowerCase().includes(q) || t.note.toLowerCase().includes(q);
+  });
+
+  const updateTerm = (id: string, patch: Partial<GlossaryTerm>) => onChange(terms.map(t => t.id === id ? { ...t, ...patch } : t));
+
+  const addTerm = () => {
+    setFilter('');
+    onChange([createTerm(), ...terms]);
+  };
+
+  const importText = (text: string) => {
+    try {
+      const { terms: merged, added, updated } = mergeGlossary(terms, parseGlossaryTable(text));
+      onChange(merged);
+      setMessage({ text: `Imported ${added} new term${added === 1 ? '' : 's'}${updated ? `, updated ${updated}` : ''}.`, isError: false });
+    } catch (err: any) {
+      console.error("Glossary import error", err);
+      setMessage({ text: err?.message || 'Could not read the glossary.', isError: true });
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importText(await file.text());
+  };
+
+  // Rows copied from Excel or Sheets arrive as tab-separated text.
+  const handlePaste = async () => {
+    try { importText(await navigator.clipboard.readText()); }
+    catch (err) {
+      console.error("Clipboard read error", err);
+      setMessage({ text: 'Clipboard access was denied.', isError: true });
+    }
+  };
+
+  const handleExport = () => downloadBlob(new Blob([serializeGlossaryCsv(terms)], { type: 'text/csv' }), 'glossary.csv');
+
+  const toolButton = "flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest bg-slate-100 text-slate-500 hover:bg-blue-50 hover:text-blue-600 transition-all disabled:opacity-40";
+  const cellInput = "w-full min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs outline-none focus:border-blue-500 focus:bg-white disabled:opacity-40";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] flex items-center gap-1">
+          <BookMarked className="w-3 h-3" /> Glossary
+          <span className="ml-1 px-1.5 py-0.5 rounded bg-slate-100 text-slate-400 tracking-normal">{terms.length}</span>
+        </label>
+        <div className="flex flex-wrap items-center gap-1.5">
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400" />
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter"
+              className="w-28 bg-slate-50 border border-slate-200 rounded-lg pl-6 pr-2 py-1 text-[11px] outline-none focus:border-blue-500"
+            />
+          </div>
+          <button onClick={addTerm} className={toolButton}><Plus className="w-3 h-3" /> Term</button>
+          <button onClick={() => importInputRef.current?.click()} className={toolButton} title="Import CSV or TSV (columns: source, target, note, case sensitive, do not translate)">
+            <FileUp className="w-3 h-3" /> Import
+          </button>
+          <button onClick={handlePaste} className={toolButton} title="Paste rows copied from a spreadsheet">
+            <ClipboardPaste className="w-3 h-3" /> Paste
+          </button>
+          <button onClick={handleExport} disabled={terms.length === 0} className={toolButton} title="Download as CSV to share">
+            <Download className="w-3 h-3" /> CSV
+          </button>
+          <input ref={importInputRef} type="file" accept=".csv,.tsv,.txt" onChange={handleImportFile} className="hidden" />
+        </div>
+      </div>
+
+      {message && <p className={`text-[11px] font-bold ${message.isError ? 'text-red-600' : 'text-emerald-600'}`}>{message.text}</p>}
+
+      {terms.length === 0 ? (
+        <p className="px-3 py-4 text-center text-[11px] text-slate-400 bg-slate-50 border border-dashed border-slate-200 rounded-xl">
+          No terms yet. Add them one by one or import a spreadsheet export.
+        </p>
+      ) : (
+        <div className="max-h-56 overflow-y-auto custom-scrollbar space-y-1.5 pr-1">
+          {visible.map(term => (
+            <div key={term.id} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-1.5 items-center">
+              <input value={term.source} onChange={(e) => updateTerm(term.id, { source: e.target.value })} placeholder="Source term" className={`${cellInput} font-bold`} />
+              <input
+                value={term.doNotTranslate ? term.source : term.target}
+                onChange={(e) => updateTerm(term.id, { target: e.target.value })}
+                disabled={term.doNotTranslate}
+                placeholder="Translation"
+                className={cellInput}
+              />
+              <input value={term.note} onChange={(e) => updateTerm(term.id, { note: e.target.value })} placeholder="Note" className={cellInput} />
+              <div className="flex items-center gap-0.5">
+                <button
+                  onClick={() => updateTerm(term.id, { caseSensitive: !term.caseSensitive })}
+                  className={`p-1.5 rounded-lg transition-all ${term.caseSensitive ? 'bg-blue-600 text-white' : 'text-slate-300 hover:text-slate-500'}`}
+                  title="Case-sensitive match"
+                >
+                  <CaseSensitive className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => updateTerm(term.id, { doNotTranslate: !term.doNotTranslate })}
+                  className={`p-1.5 rounded-lg transition-all ${term.doNotTranslate ? 'bg-amber-500 text-white' : 'text-slate-300 hover:text-slate-500'}`}
+                  title="Do not translate"
+                >
+                  <Ban className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => onChange(terms.filter(t => t.id !== term.id))} className="p-1.5 rounded-lg text-slate-300 hover:text-red-500 hover:bg-red-50 transition-all" title="Remove term">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LanguagePair } from '../types';
+import { LANGUAGE_PAIRS, pairKey, pairLabel } from '../languages';
+
+interface LanguagePairSelectProps {
+  value: LanguagePair;
+  onChange: (pair: LanguagePair) => void;
+  disabled?: boolean;
+}
+
+export const LanguagePairSelect: React.FC<LanguagePairSelectProps> = ({ value, onChange, disabled = false }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const pair = LANGUAGE_PAIRS.find(p => pairKey(p) === e.target.value);
+    if (pair) onChange(pair);
+  };
+
+  return (
+    <div className={`flex items-center gap-1.5 bg-slate-50 border border-slate-200 pl-3 pr-1 py-1.5 rounded-xl ${disabled ? 'opacity-50' : ''}`} title={disabled ? 'Stop recording to change languages' : 'Language Pair'}>
+      <Languages className="w-3.5 h-3.5 text-slate-400" />
+      <select
+        value={pairKey(value)}
+        onChange={handleChange}
+        disabled={disabled}
+        className="bg-transparent text-[10px] font-black uppercase tracking-widest text-slate-700 outline-none cursor-pointer disabled:cursor-not-allowed"
+      >
+        {LANGUAGE_PAIRS.map(p => <option key={pairKey(p)} value={pairKey(p)}>{pairLabel(p)}</option>)}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+
+import React, { useEffect, useRef } from 'react';
+import { Headphones, Loader2, Mic, Volume2, AlertTriangle, Trash2, X as CloseIcon } from 'lucide-react';
+import { LiveTurn } from '../types';
+
+interface LivePanelProps {
+  turns: LiveTurn[];
+  isActive: boolean;
+  isConnecting: boolean;
+  isSpeaking: boolean;
+  error: string | null;
+  onStop: () => void;
+  onClear: () => void;
+}
+
+export const LivePanel: React.FC<LivePanelProps> = ({
+  turns,
+  isActive,
+  isConnecting,
+  isSpeaking,
+  error,
+  onStop,
+  onClear
+}) => {
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    requestAnimationFrame(() => bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' }));
+  }, [turns]);
+
+  return (
+    <main className="flex-1 flex flex-col min-h-0 w-full max-w-4xl mx-auto p-4 md:p-8 gap-4">
+      <div className="flex items-center justify-between bg-slate-900 text-white px-5 py-3 rounded-2xl shadow-xl shrink-0">
+        <div className="flex items-center gap-3">
+          {isConnecting ? (
+            <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />
+          ) : (
+            <Headphones className={`w-4 h-4 ${isActive ? 'text-emerald-400' : 'text-slate-500'}`} />
+          )}
+          <span className="text-[10px] font-black uppercase tracking-widest">
+            {isConnecting ? 'Connecting...' : isActive ? 'Live Interpreter' : 'Disconnected'}
+          </span>
+          {isActive && (
+            <div className="flex items-center gap-1.5 px-2 py-0.5 bg-white/10 rounded-full">
+              {isSpeaking ? <Volume2 className="w-3 h-3 text-emerald-400 animate-pulse" /> : <Mic className="w-3 h-3 text-red-400 animate-pulse" />}
+              <span className="text-[8px] font-black uppercase tracking-tighter text-slate-300">{isSpeaking ? 'Speaking' : 'Listening'}</span>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onClear} disabled={turns.length === 0} className="p-2 text-slate-400 hover:text-white rounded-lg transition-all disabled:opacity-30" title="Clear Conversation">
+            <Trash2 className="w-4 h-4" />
+          </button>
+          <button onClick={onStop} className="px-3 py-1.5 bg-red-500 hover:bg-red-600 rounded-lg text-[9px] font-black uppercase flex items-center gap-1.5 transition-all">
+            <CloseIcon className="w-3 h-3" /> End
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 px-4 py-2.5 bg-red-50 border border-red-100 text-red-600 rounded-xl text-xs font-bold shrink-0">
+          <AlertTriangle className="w-4 h-4 shrink-0" /> {error}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar bg-white rounded-2xl border border-slate-200 shadow-sm p-4 md:p-6">
+        {turns.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-slate-300 gap-2 italic">
+            <Headphones className="w-12 h-12 mb-2" />
+            <p className="text-sm font-bold uppercase tracking-widest">{isActive ? 'Start speaking...' : 'No conversation yet'}</p>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4">
+            {turns.map((turn, index) => (
+              <div key={index} className="flex flex-col gap-2 animate-in fade-in duration-300">
+                {turn.user && (
+                  <div className="self-start max-w-[85%] px-4 py-3 bg-blue-50 border border-blue-100 rounded-2xl rounded-tl-sm">
+                    <span className="block text-[8px] font-black uppercase tracking-widest text-blue-500 mb-1">Speaker</span>
+                    <p className="text-sm md:text-base text-slate-800 break-words">{turn.user}</p>
+                  </div>
+                )}
+                {turn.ai && (
+                  <div className="self-end max-w-[85%] px-4 py-3 bg-emerald-50 border border-emerald-100 rounded-2xl rounded-tr-sm">
+                    <span className="block text-[8px] font-black uppercase tracking-widest text-emerald-600 mb-1">Interpreter</span>
+                    <p className="text-sm md:text-base text-slate-800 font-medium break-words">{turn.ai}</p>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        <div ref={bottomRef} className="h-2" />
+      </div>
+    </main>
+  );
+};
@@ -0,0 +1,83 @@
+
+import React from 'react';
+import { Play, Pause, RotateCcw, RotateCw, Square, Disc3 } from 'lucide-react';
+import { AudioTake } from '../utils/audio';
+import { formatOffset } from '../utils/time';
+import { PLAYBACK_RATES } from '../hooks/useAudioPlayback';
+
+interface PlayerBarProps {
+  takes: AudioTake[]; // In session order
+  positionMs: number | null;
+  isPlaying: boolean;
+  rate: number;
+  onToggle: () => void;
+  onStop: () => void;
+  onSkip: (deltaMs: number) => void;
+  onSeek: (offsetMs: number) => void;
+  onRateChange: (rate: number) => void;
+}
+
+const SKIP_MS = 5000;
+
+// The bar covers the recorded audio only; the gaps between takes are left out,
+// so its length matches what will actually be heard.
+const toAudioMs = (takes: AudioTake[], offsetMs: number) => takes.reduce((total, t) =>
+  total + Math.max(0, Math.min(offsetMs, t.endOffsetMs) - t.startOffsetMs), 0);
+
+const toSessionMs = (takes: AudioTake[], audioMs: number) => {
+  let remaining = audioMs;
+  for (const take of takes) {
+    const length = take.endOffsetMs - take.startOffsetMs;
+    if (remaining <= length) return take.startOffsetMs + remaining;
+    remaining -= length;
+  }
+  return takes[takes.length - 1]?.endOffsetMs ?? 0;
+};
+
+export const PlayerBar: React.FC<PlayerBarProps> = ({ takes, positionMs, isPlaying, rate, onToggle, onStop, onSkip, onSeek, onRateChange }) => {
+  const totalMs = toAudioMs(takes, Infinity);
+  const playedMs = positionMs !== null ? toAudioMs(takes, positionMs) : 0;
+  const nextRate = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length];
+
+  const handleBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    onSeek(toSessionMs(takes, ratio * totalMs));
+  };
+
+  return (
+    <div className="px-4 md:px-8 pt-3 flex items-center gap-2 md:gap-3 shrink-0">
+      <div className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-slate-400" title={`${takes.length} recording${takes.length === 1 ? '' : 's'} in this session`}>
+        <Disc3 className={`w-3.5 h-3.5 ${isPlaying ? 'text-blue-600 animate-spin' : ''}`} /> Audio
+      </div>
+      <div className="flex items-center gap-0.5">
+        <button onClick={() => onSkip(-SKIP_MS)} className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 transition-colors" title="Back 5 seconds">
+          <RotateCcw className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={onToggle} className="w-7 h-7 rounded-full bg-slate-800 text-white flex items-center justify-center hover:bg-blue-600 transition-colors" title={isPlaying ? 'Pause' : 'Play'}>
+          {isPlaying ? <Pause className="w-3 h-3 fill-current" /> : <Play className="w-3 h-3 fill-current ml-0.5" />}
+        </button>
+        <button onClick={() => onSkip(SKIP_MS)} className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 transition-colors" title="Forward 5 seconds">
+          <RotateCw className="w-3.5 h-3.5" />
+        </button>
+        {positionMs !== null && (
+          <button onClick={onStop} className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-600 transition-colors" title="Stop and clear the playing line">
+            <Square className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      <span className="font-mono text-[10px] font-bold text-slate-500 tabular-nums">{formatOffset(playedMs)}</span>
+      <div onClick={handleBarClick} className="flex-1 h-1.5 bg-slate-200 rounded-full overflow-hidden cursor-pointer" title="Seek">
+        <div className="h-full bg-blue-500 rounded-full" style={{ width: `${totalMs > 0 ? (playedMs / totalMs) * 100 : 0}%` }} />
+      </div>
+      <span className="font-mono text-[10px] font-bold text-slate-400 tabular-nums">{formatOffset(totalMs)}</span>
+      <button
+        onClick={() => onRateChange(nextRate)}
+        className="px-2 py-1 rounded-lg bg-white border border-slate-200 text-[10px] font-black text-slate-600 hover:border-blue-300 hover:text-blue-600 tabular-nums transition-colors"
+        title={`Playback speed (next: ${nextRate}x)`}
+      >
+        {rate}x
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+
+import React, { memo } from 'react';
+import { SkipForward, RotateCcw, Volume1, PauseCircle } from 'lucide-react';
+import { ReaderPreferences } from '../types';
+
+interface ReaderControlsProps {
+  voices: SpeechSynthesisVoice[];
+  prefs: ReaderPreferences;
+  onPrefsChange: (patch: Partial<ReaderPreferences>) => void;
+  currentLine: string | null;
+  queueLength: number;
+  isHeld: boolean;
+  onSkip: () => void;
+  onReplay: () => void;
+}
+
+export const ReaderControls: React.FC<ReaderControlsProps> = memo(({
+  voices,
+  prefs,
+  onPrefsChange,
+  currentLine,
+  queueLength,
+  isHeld,
+  onSkip,
+  onReplay
+}) => {
+  return (
+    <div className="px-4 py-2.5 border-t border-emerald-100 bg-emerald-50/60 flex flex-col gap-2 shrink-0">
+      <div className="flex items-center gap-2 min-w-0">
+        {isHeld ? <PauseCircle className="w-3.5 h-3.5 text-amber-500 shrink-0" /> : <Volume1 className={`w-3.5 h-3.5 shrink-0 ${currentLine ? 'text-emerald-600 animate-pulse' : 'text-slate-400'}`} />}
+        <span className="text-[11px] text-slate-600 truncate flex-1">
+          {isHeld ? 'Held while microphone is live' : currentLine || 'Waiting for interpretation...'}
+        </span>
+        {queueLength > 0 && <span className="px-1.5 py-0.5 bg-emerald-100 text-emerald-700 rounded text-[8px] font-black uppercase shrink-0">+{queueLength}</span>}
+        <button onClick={onReplay} className="p-1.5 text-slate-500 hover:text-emerald-700 hover:bg-white rounded-lg transition-all" title="Replay Line">
+          <RotateCcw className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={onSkip} disabled={!currentLine} className="p-1.5 text-slate-500 hover:text-emerald-700 hover:bg-white rounded-lg transition-all disabled:opacity-30" title="Skip Line">
+          <SkipForward className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap text-[9px] font-black uppercase tracking-widest text-slate-500">
+        <select
+          value={prefs.voiceURI}
+          onChange={(e) => onPrefsChange({ voiceURI: e.target.value })}
+          className="max-w-[160px] bg-white border border-emerald-100 rounded-lg px-2 py-1 text-[10px] font-bold normal-case tracking-normal outline-none"
+        >
+          <option value="">Default voice</option>
+          {voices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+        </select>
+        <label className="flex items-center gap-1.5">
+          Rate
+          <input type="range" min={0.5} max={2} step={0.1} value={prefs.rate} onChange={(e) => onPrefsChange({ rate: Number(e.target.value) })} className="w-16 accent-emerald-600" />
+          <span className="tabular-nums w-6">{prefs.rate.toFixed(1)}</span>
+        </label>
+        <label className="flex items-center gap-1.5">
+          Pitch
+          <input type="range" min={0.5} max={2} step={0.1} value={prefs.pitch} onChange={(e) => onPrefsChange({ pitch: Number(e.target.value) })} className="w-16 accent-emerald-600" />
+          <span className="tabular-nums w-6">{prefs.pitch.toFixed(1)}</span>
+        </label>
+        <select
+          value={prefs.duckMode}
+          onChange={(e) => onPrefsChange({ duckMode: e.target.value as ReaderPreferences['duckMode'] })}
+          className="bg-white border border-emerald-100 rounded-lg px-2 py-1 text-[10px] font-bold normal-case tracking-normal outline-none"
+          title="Behaviour while recording"
+        >
+          <option value="pause">Pause while recording</option>
+          <option value="duck">Duck while recording</option>
+        </select>
+      </div>
+    </div>
+  );
+});
+
+ReaderControls.displayName = 'ReaderControls';
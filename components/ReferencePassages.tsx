@@ -0,0 +1,50 @@
+
+import React, { useState } from 'react';
+import { BookOpen, ChevronDown, ChevronUp } from 'lucide-react';
+import { PassageHit, passageLabel } from '../services/referenceIndex';
+
+interface ReferencePassagesProps {
+  hits: PassageHit[];
+  passageCount: number; // Size of the index, for context
+  scope: 'selected' | 'latest';
+}
+
+// Shows which reference passages were retrieved for a line, so a surprising
+// rendering can be traced back to the document that suggested it.
+export const ReferencePassages: React.FC<ReferencePassagesProps> = ({ hits, passageCount, scope }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const best = hits[0]?.score || 1;
+
+  return (
+    <div className="bg-white border-b border-slate-200 shrink-0 z-10">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full px-4 md:px-8 py-1.5 flex items-center gap-2 text-left hover:bg-slate-50 transition-colors">
+        <BookOpen className="w-3 h-3 text-blue-600 shrink-0" />
+        <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 truncate">
+          {hits.length > 0
+            ? `${hits.length} reference passage${hits.length === 1 ? '' : 's'} used for the ${scope === 'selected' ? 'selected' : 'latest'} line`
+            : `No reference passage matched the ${scope === 'selected' ? 'selected' : 'latest'} line`}
+        </span>
+        <span className="text-[9px] font-bold text-slate-300 uppercase tracking-widest hidden sm:inline">· {passageCount} indexed</span>
+        <span className="ml-auto text-slate-400">{isOpen ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}</span>
+      </button>
+      {isOpen && hits.length > 0 && (
+        <div className="px-4 md:px-8 pb-3 flex gap-2 overflow-x-auto custom-scrollbar animate-in slide-in-from-top-2">
+          {hits.map(({ passage, score }) => (
+            <div key={passage.id} className="min-w-[220px] max-w-xs shrink-0 p-2.5 bg-slate-50 border border-slate-100 rounded-xl">
+              <div className="flex items-center justify-between gap-2 mb-1 text-[9px] font-black uppercase tracking-widest">
+                <span className="text-blue-600 truncate" title={passageLabel(passage)}>{passageLabel(passage) || `Passage ${passage.id + 1}`}</span>
+                <span className="flex items-center gap-1 text-slate-400 shrink-0">
+                  <span className="w-10 h-1 bg-slate-200 rounded-full overflow-hidden">
+                    <span className="block h-full bg-blue-500" style={{ width: `${Math.round((score / best) * 100)}%` }} />
+                  </span>
+                  {score.toFixed(1)}
+                </span>
+              </div>
+              <p className="text-[11px] text-slate-600 leading-snug line-clamp-4">{passage.text}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
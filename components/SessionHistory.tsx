@@ -0,0 +1,176 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, History, RotateCcw, Loader2, FileText, HardDrive } from 'lucide-react';
+import { SessionMetadata, SessionData, SessionSnapshot, SnapshotReason } from '../types';
+import { listSnapshots, SNAPSHOT_RETENTION } from '../services/sessionStore';
+import { diffWords, DiffPart } from '../utils/diff';
+import { formatBytes } from '../utils/bytes';
+
+interface SessionHistoryProps {
+  session: SessionMetadata;
+  loadCurrent: (id: string) => Promise<SessionData | null>;
+  onRestore: (snapshot: SessionSnapshot) => Promise<void>;
+  onBack: () => void;
+}
+
+type DiffSide = 'source' | 'target';
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  'auto': 'Autosave',
+  'before-clear': 'Before clear',
+  'before-restore': 'Before restore',
+};
+
+// Unchanged stretches longer than this are shortened to their edges.
+const CONTEXT_CHARS = 160;
+
+const collapse = (text: string, isFirst: boolean, isLast: boolean) => {
+  if (text.length <= CONTEXT_CHARS * 2) return text;
+  if (isFirst && isLast) return `${text.slice(0, CONTEXT_CHARS * 2)} …`;
+  const head = isFirst ? '' : text.slice(0, CONTEXT_CHARS);
+  const tail = isLast ? '' : text.slice(-CONTEXT_CHARS);
+  return `${head} … ${tail}`;
+};
+
+const countWords = (parts: DiffPart[], kind: DiffPart['kind']) =>
+  parts.filter(p => p.kind === kind).reduce((n, p) => n + p.text.split(/\s+/).filter(Boolean).length, 0);
+
+export const SessionHistory: React.FC<SessionHistoryProps> = ({ session, loadCurrent, onRestore, onBack }) => {
+  const [snapshots, setSnapshots] = useState<SessionSnapshot[] | null>(null);
+  const [current, setCurrent] = useState<SessionData | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [side, setSide] = useState<DiffSide>('source');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([listSnapshots(session.id), loadCurrent(session.id)])
+      .then(([history, data]) => {
+        if (cancelled) return;
+        setSnapshots(history);
+        setCurrent(data);
+        setSelectedId(history[0]?.id || null);
+      })
+      .catch(e => { console.error("History read error", e); if (!cancelled) setError("Could not read this session's history."); });
+    return () => { cancelled = true; };
+  }, [session.id]);
+
+  const selected = snapshots?.find(s => s.id === selectedId) || null;
+  const historyBytes = (snapshots || []).reduce((total, s) => total + s.bytes, 0);
+
+  // Reads as "what restoring would change": the snapshot is the new text.
+  const parts = useMemo(() => {
+    if (!selected) return [];
+    const before = side === 'source' ? current?.text || '' : current?.translatedText || '';
+    const after = side === 'source' ? selected.data.text : selected.data.translatedText;
+    return diffWords(before, after);
+  }, [selected, current, side]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await onRestore(selected);
+    } catch (err: any) {
+      console.error("Restore error", err);
+      setError(err?.message || 'Restore failed.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="px-4 md:px-6 py-4 border-b border-slate-100 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <button onClick={onBack} className="p-2 hover:bg-slate-100 rounded-xl transition-colors text-slate-400" title="Back to sessions">
+            <ArrowLeft className="w-4 h-4" />
+          </button>
+          <div className="min-w-0">
+            <h3 className="text-sm font-black uppercase tracking-tight text-slate-800 truncate">{session.name}</h3>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+              {snapshots ? `${snapshots.length} snapshots · ${formatBytes(historyBytes)} of ${formatBytes(SNAPSHOT_RETENTION.maxBytes)}` : 'Loading history'}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleRestore}
+          disabled={!selected || isRestoring}
+          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2.5 rounded-xl font-bold text-[10px] uppercase tracking-widest shadow-lg shadow-blue-500/20 disabled:opacity-50"
+          title="The current text is kept as a snapshot, so a restore can be undone"
+        >
+          {isRestoring ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />} Restore
+        </button>
+      </div>
+
+      {error && <p className="px-6 pt-3 text-[11px] font-bold text-red-600">{error}</p>}
+
+      {snapshots && snapshots.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-slate-300 gap-2 opacity-60 italic p-6 text-center">
+          <History className="w-12 h-12 mb-2" />
+          <p className="text-sm font-bold uppercase tracking-widest">No snapshots yet</p>
+          <p className="text-[11px] not-italic font-medium text-slate-400">Snapshots are taken every few minutes while the transcript changes, and before it is cleared.</p>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col sm:flex-row min-h-0">
+          <div className="sm:w-56 shrink-0 max-h-40 sm:max-h-none overflow-y-auto custom-scrollbar border-b sm:border-b-0 sm:border-r border-slate-100 p-3 space-y-1">
+            {!snapshots && <Loader2 className="w-4 h-4 animate-spin text-slate-300 m-3" />}
+            {snapshots?.map(snapshot => (
+              <button
+                key={snapshot.id}
+                onClick={() => setSelectedId(snapshot.id)}
+                className={`w-full text-left px-3 py-2.5 rounded-xl border transition-all ${
+                  selectedId === snapshot.id ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-transparent text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                <div className="text-[11px] font-black tabular-nums">{new Date(snapshot.createdAt).toLocaleString()}</div>
+                <div className="flex items-center gap-2 mt-0.5 text-[9px] font-black uppercase tracking-tighter text-slate-400">
+                  <span className={snapshot.reason === 'auto' ? '' : 'text-amber-600'}>{REASON_LABELS[snapshot.reason]}</span>
+                  <span className="flex items-center gap-0.5"><FileText className="w-2.5 h-2.5" />{snapshot.wordCount}</span>
+                  <span className="flex items-center gap-0.5"><HardDrive className="w-2.5 h-2.5" />{formatBytes(snapshot.bytes)}</span>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 flex flex-col min-h-0">
+            <div className="px-4 py-2.5 border-b border-slate-100 flex items-center justify-between gap-3">
+              <div className="flex bg-slate-100 rounded-lg p-0.5">
+                {(['source', 'target'] as DiffSide[]).map(s => (
+                  <button
+                    key={s}
+                    onClick={() => setSide(s)}
+                    className={`px-3 py-1 rounded-md text-[9px] font-black uppercase tracking-widest ${side === s ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-400'}`}
+                  >
+                    {s === 'source' ? 'Original' : 'Interpretation'}
+                  </button>
+                ))}
+              </div>
+              {selected && (
+                <span className="text-[9px] font-black uppercase tracking-widest tabular-nums">
+                  <span className="text-emerald-600">+{countWords(parts, 'insert')}</span>{' '}
+                  <span className="text-red-500">-{countWords(parts, 'delete')}</span>
+                  <span className="text-slate-400"> vs current</span>
+                </span>
+              )}
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-4 text-sm leading-relaxed text-slate-700 whitespace-pre-wrap">
+              {selected && parts.length === 0 && <p className="text-slate-300 italic">Both versions are empty.</p>}
+              {selected && parts.length > 0 && parts.every(p => p.kind === 'equal') && (
+                <p className="mb-3 text-[10px] font-black uppercase tracking-widest text-slate-400">Identical to the current text.</p>
+              )}
+              {parts.map((part, i) => part.kind === 'equal'
+                ? <span key={i} className="text-slate-400">{collapse(part.text, i === 0, i === parts.length - 1)}</span>
+                : part.kind === 'insert'
+                  ? <ins key={i} className="no-underline bg-emerald-100 text-emerald-800 rounded-sm">{part.text}</ins>
+                  : <del key={i} className="bg-red-50 text-red-500 rounded-sm">{part.text}</del>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
 
-import React, { useState } from 'react';
-import { Folder, Plus, Calendar, Clock, Trash2, FileText, X, Search, ChevronRight, Hash } from 'lucide-react';
-import { SessionMetadata } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Folder, Plus, Calendar, Clock, Trash2, FileText, X, Search, ChevronRight, Hash, FileUp, Loader2, AlertTriangle, HardDrive, History, Mic } from 'lucide-react';
+import { SessionMetadata, SessionData, SessionArchive, SessionSnapshot } from '../types';
+import { readArchiveFile, detectCollisions, resolveImport, ImportMode, ImportCollisions } from '../services/sessionImport';
+import { estimateStorage, audioUsageBySession, StorageUsage } from '../services/sessionStore';
+import { formatBytes } from '../utils/bytes';
+import { SessionHistory } from './SessionHistory';
 
 interface SessionVaultProps {
   isOpen: boolean;
@@ -11,6 +15,11 @@ interface SessionVaultProps {
   onSelect: (id: string) => void;
   onDelete: (id: string) => void;
   onNew: (name: string) => void;
+  onImport: (meta: SessionMetadata, data: SessionData) => void;
+  loadCurrent: (id: string) => Promise<SessionData | null>;
+  onRestore: (snapshot: SessionSnapshot) => Promise<void>;
+  onDeleteAudio: (id: string) => Promise<void>;
+  busyIds: string[]; // Being written by a batch job; opened, restored or deleted only once it finishes
 }
 
 export const SessionVault: React.FC<SessionVaultProps> = ({
@@ -20,11 +29,71 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
   activeSessionId,
   onSelect,
   onDelete,
-  onNew
+  onNew,
+  onImport,
+  loadCurrent,
+  onRestore,
+  onDeleteAudio,
+  busyIds
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [newName, setNewName] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  // An archive waiting for the user to decide how to resolve its collision.
+  const [pendingImport, setPendingImport] = useState<{ archive: SessionArchive; collisions: ImportCollisions } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  // Recorded audio is stored apart from the session data, so it is measured separately.
+  const [audioBytes, setAudioBytes] = useState<Record<string, number>>({});
+
+  const refreshAudioUsage = () => audioUsageBySession().then(setAudioBytes).catch(e => console.error("Audio usage error", e));
+
+  useEffect(() => {
+    if (!isOpen) { setHistoryId(null); return; }
+    estimateStorage().then(setUsage).catch(e => console.error("Storage estimate error", e));
+    refreshAudioUsage();
+  }, [isOpen, sessions]);
+
+  const sessionBytes = sessions.reduce((total, s) => total + (s.storageBytes || 0), 0);
+  const totalAudioBytes = sessions.reduce((total, s) => total + (audioBytes[s.id] || 0), 0);
+
+  const handleDeleteAudio = async (id: string) => {
+    try {
+      await onDeleteAudio(id);
+    } finally {
+      refreshAudioUsage();
+      estimateStorage().then(setUsage).catch(e => console.error("Storage estimate error", e));
+    }
+  };
+  const usageRatio = usage && usage.quota > 0 ? Math.min(1, usage.usage / usage.quota) : 0;
+
+  const finishImport = (archive: SessionArchive, mode: ImportMode) => {
+    const { meta, data } = resolveImport(archive, sessions, mode);
+    setPendingImport(null);
+    onImport(meta, data);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const archive = await readArchiveFile(file);
+      const collisions = detectCollisions(archive, sessions);
+      if (collisions.byId || collisions.byName) setPendingImport({ archive, collisions });
+      else finishImport(archive, 'copy');
+    } catch (err: any) {
+      console.error("Import error", err);
+      setImportError(err?.message || 'Import failed.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
   const filteredSessions = sessions.filter(s => 
     s.name.toLowerCase().includes(searchTerm.toLowerCase())
@@ -41,6 +110,8 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
 
   if (!isOpen) return null;
 
+  const historySession = sessions.find(s => s.id === historyId);
+
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
       <div className="bg-white w-full max-w-2xl h-[80vh] rounded-[32px] shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
@@ -59,6 +130,9 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
           </button>
         </div>
 
+        {historySession ? (
+          <SessionHistory session={historySession} loadCurrent={loadCurrent} onRestore={onRestore} onBack={() => setHistoryId(null)} />
+        ) : (<>
         <div className="p-4 md:p-6 border-b border-slate-100 bg-white">
           <div className="relative mb-4">
             <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
@@ -72,12 +146,23 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
           </div>
           
           {!isCreating ? (
-            <button 
-              onClick={() => setIsCreating(true)}
-              className="w-full py-4 border-2 border-dashed border-slate-200 rounded-2xl flex items-center justify-center gap-2 text-slate-400 hover:text-blue-600 hover:border-blue-200 hover:bg-blue-50/30 transition-all font-black text-xs uppercase tracking-widest"
-            >
-              <Plus className="w-4 h-4" /> Start New Meeting Session
-            </button>
+            <div className="flex gap-2">
+              <button 
+                onClick={() => setIsCreating(true)}
+                className="flex-1 py-4 border-2 border-dashed border-slate-200 rounded-2xl flex items-center justify-center gap-2 text-slate-400 hover:text-blue-600 hover:border-blue-200 hover:bg-blue-50/30 transition-all font-black text-xs uppercase tracking-widest"
+              >
+                <Plus className="w-4 h-4" /> Start New Meeting Session
+              </button>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting}
+                className="px-5 py-4 border-2 border-dashed border-slate-200 rounded-2xl flex items-center justify-center gap-2 text-slate-400 hover:text-blue-600 hover:border-blue-200 hover:bg-blue-50/30 transition-all font-black text-xs uppercase tracking-widest disabled:opacity-50"
+                title="Import a session .json or .docx export"
+              >
+                {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />} Import
+              </button>
+              <input ref={importInputRef} type="file" accept=".json,.docx" onChange={handleImportFile} className="hidden" />
+            </div>
           ) : (
             <form onSubmit={handleCreate} className="flex gap-2 animate-in slide-in-from-top-2">
               <input 
@@ -92,6 +177,28 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
               <button type="button" onClick={() => setIsCreating(false)} className="bg-slate-100 text-slate-600 px-4 py-3 rounded-xl font-bold text-xs uppercase tracking-widest">Cancel</button>
             </form>
           )}
+
+          {importError && (
+            <p className="mt-3 text-[11px] font-bold text-red-600">{importError}</p>
+          )}
+
+          {pendingImport && (
+            <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-2xl space-y-3 animate-in slide-in-from-top-2">
+              <div className="flex items-start gap-2 text-amber-800">
+                <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                <p className="text-xs font-medium">
+                  {pendingImport.collisions.byId
+                    ? <>This archive is a copy of <b>{pendingImport.collisions.byId.name}</b>, which is already in the Vault.</>
+                    : <>A session named <b>{pendingImport.collisions.byName!.name}</b> already exists.</>}
+                </p>
+              </div>
+              <div className="flex gap-2 justify-end">
+                <button onClick={() => setPendingImport(null)} className="bg-white text-slate-600 px-4 py-2 rounded-xl font-bold text-[10px] uppercase tracking-widest border border-slate-200">Cancel</button>
+                <button onClick={() => finishImport(pendingImport.archive, 'copy')} className="bg-white text-blue-700 px-4 py-2 rounded-xl font-bold text-[10px] uppercase tracking-widest border border-blue-200">Keep Both</button>
+                <button onClick={() => finishImport(pendingImport.archive, 'replace')} className="bg-amber-500 text-white px-4 py-2 rounded-xl font-bold text-[10px] uppercase tracking-widest">Replace</button>
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="flex-1 overflow-y-auto custom-scrollbar p-4 md:p-6 space-y-3">
@@ -104,8 +211,8 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
             filteredSessions.map(session => (
               <div 
                 key={session.id}
-                onClick={() => onSelect(session.id)}
-                className={`group flex items-center justify-between p-4 rounded-2xl border transition-all cursor-pointer ${
+                onClick={() => { if (!busyIds.includes(session.id)) onSelect(session.id); }}
+                className={`group flex items-center justify-between p-4 rounded-2xl border transition-all ${busyIds.includes(session.id) ? 'cursor-wait opacity-60' : 'cursor-pointer'} ${
                   activeSessionId === session.id 
                   ? 'bg-blue-50 border-blue-200 shadow-md ring-2 ring-blue-600/5' 
                   : 'bg-white border-slate-100 hover:border-blue-100 hover:shadow-sm'
@@ -132,6 +239,23 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
                         <FileText className="w-3 h-3" />
                         {session.wordCount} words
                       </div>
+                      {session.storageBytes !== undefined && (
+                        <div className="hidden sm:flex items-center gap-1 text-[9px] font-black text-slate-400 uppercase tracking-tighter">
+                          <HardDrive className="w-3 h-3" />
+                          {formatBytes(session.storageBytes)}
+                        </div>
+                      )}
+                      {audioBytes[session.id] > 0 && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); handleDeleteAudio(session.id); }}
+                          className="group/audio flex items-center gap-1 text-[9px] font-black text-slate-400 hover:text-red-500 uppercase tracking-tighter transition-colors"
+                          title="Recorded audio. Click to delete it and keep the transcript."
+                        >
+                          <Mic className="w-3 h-3 group-hover/audio:hidden" />
+                          <Trash2 className="w-3 h-3 hidden group-hover/audio:block" />
+                          {formatBytes(audioBytes[session.id])}
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -140,22 +264,48 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
                   {activeSessionId === session.id && (
                     <span className="bg-blue-100 text-blue-700 px-2 py-1 rounded-md text-[8px] font-black uppercase tracking-widest mr-2">Active</span>
                   )}
-                  <button 
-                    onClick={(e) => { e.stopPropagation(); onDelete(session.id); }}
-                    className="p-2.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all"
-                    title="Delete Session"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  {busyIds.includes(session.id) ? (
+                    <span className="flex items-center gap-1 bg-slate-100 text-slate-500 px-2 py-1 rounded-md text-[8px] font-black uppercase tracking-widest mr-2" title="A batch job is still writing this session">
+                      <Loader2 className="w-3 h-3 animate-spin" /> Processing
+                    </span>
+                  ) : (
+                    <>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); setHistoryId(session.id); }}
+                        className="p-2.5 text-slate-300 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all"
+                        title="Version History"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
+                      <button 
+                        onClick={(e) => { e.stopPropagation(); onDelete(session.id); }}
+                        className="p-2.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all"
+                        title="Delete Session"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
                   <ChevronRight className={`w-4 h-4 transition-all ${activeSessionId === session.id ? 'text-blue-500' : 'text-slate-300 group-hover:translate-x-1'}`} />
                 </div>
               </div>
             ))
           )}
         </div>
+        </>)}
         
-        <div className="px-8 py-4 bg-slate-50 border-t border-slate-100 text-[9px] text-slate-400 font-bold uppercase tracking-widest text-center">
-          Sessions are stored locally on this device.
+        <div className="px-8 py-4 bg-slate-50 border-t border-slate-100 text-[9px] text-slate-400 font-bold uppercase tracking-widest space-y-2">
+          {usage && usage.quota > 0 && (
+            <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+              <div className={`h-full rounded-full ${usageRatio > 0.9 ? 'bg-red-500' : usageRatio > 0.7 ? 'bg-amber-500' : 'bg-blue-500'}`} style={{ width: `${Math.max(1, usageRatio * 100)}%` }} />
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-4">
+            <span>Sessions are stored locally on this device.</span>
+            <span className="tabular-nums text-right">
+              {formatBytes(sessionBytes)} in sessions{totalAudioBytes > 0 ? ` · ${formatBytes(totalAudioBytes)} audio` : ''}{usage && usage.quota > 0 ? ` · ${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} used` : ''}
+            </span>
+          </div>
         </div>
       </div>
     </div>
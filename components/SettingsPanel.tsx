@@ -0,0 +1,160 @@
+
+import React, { useState, useEffect } from 'react';
+import { Cpu, X, Server, FlaskConical, Sparkles, CheckCircle } from 'lucide-react';
+import { AISettings, AIProviderKind } from '../types';
+import { PROVIDER_MODELS, DEFAULT_TRANSCRIPTION_MODEL } from '../services/aiProvider';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AISettings;
+  onSave: (settings: AISettings) => void;
+}
+
+const PROVIDER_OPTIONS: { kind: AIProviderKind; label: string; hint: string; icon: React.ReactNode }[] = [
+  { kind: 'gemini', label: 'Google Gemini', hint: 'Cloud, uses GEMINI_API_KEY', icon: <Sparkles className="w-4 h-4" /> },
+  { kind: 'openai', label: 'OpenAI-compatible', hint: 'llama.cpp, Ollama, vLLM...', icon: <Server className="w-4 h-4" /> },
+  { kind: 'mock', label: 'Offline Mock', hint: 'Deterministic echo for testing', icon: <FlaskConical className="w-4 h-4" /> },
+];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, settings, onSave }) => {
+  const [draft, setDraft] = useState<AISettings>(settings);
+
+  useEffect(() => { if (isOpen) setDraft(settings); }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const selectProvider = (kind: AIProviderKind) => {
+    setDraft(prev => ({ ...prev, provider: kind, model: kind === prev.provider ? prev.model : PROVIDER_MODELS[kind][0] }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      ...draft,
+      model: draft.model.trim() || PROVIDER_MODELS[draft.provider][0],
+      baseUrl: draft.baseUrl.trim(),
+      transcriptionModel: draft.transcriptionModel.trim() || DEFAULT_TRANSCRIPTION_MODEL,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <form onSubmit={handleSubmit} className="bg-white w-full max-w-lg rounded-[32px] shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
+        <div className="px-6 md:px-8 py-5 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-slate-800 rounded-xl flex items-center justify-center text-white shadow-lg">
+              <Cpu className="w-5 h-5" />
+            </div>
+            <div>
+              <h2 className="text-lg font-black uppercase tracking-tight">AI Engine</h2>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Refine, interpret & transcribe</p>
+            </div>
+          </div>
+          <button type="button" onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 md:p-8 space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {PROVIDER_OPTIONS.map(opt => (
+              <button
+                key={opt.kind}
+                type="button"
+                onClick={() => selectProvider(opt.kind)}
+                className={`flex flex-col items-start gap-1 p-3 rounded-2xl border text-left transition-all ${
+                  draft.provider === opt.kind ? 'bg-blue-50 border-blue-200 ring-2 ring-blue-600/10 text-blue-700' : 'bg-white border-slate-100 text-slate-500 hover:border-blue-100'
+                }`}
+              >
+                {opt.icon}
+                <span className="text-[10px] font-black uppercase tracking-widest">{opt.label}</span>
+                <span className="text-[9px] text-slate-400 font-medium">{opt.hint}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Model</label>
+            <input
+              list="ai-model-options"
+              value={draft.model}
+              onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+              disabled={draft.provider === 'mock'}
+              className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-medium outline-none focus:border-blue-500 disabled:opacity-50"
+            />
+            <datalist id="ai-model-options">
+              {PROVIDER_MODELS[draft.provider].map(m => <option key={m} value={m} />)}
+            </datalist>
+          </div>
+
+          <label className="flex items-start gap-3 p-3 rounded-2xl border border-slate-100 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.refineTranscript}
+              onChange={(e) => setDraft({ ...draft, refineTranscript: e.target.checked })}
+              className="accent-blue-600 mt-0.5"
+            />
+            <span>
+              <span className="block text-[10px] font-black text-slate-600 uppercase tracking-widest">Refine transcript</span>
+              <span className="block text-[11px] text-slate-400 font-medium">Turn off for verbatim meetings: recognized speech is kept exactly as heard and only interpreted.</span>
+            </span>
+          </label>
+
+          <label className="flex items-start gap-3 p-3 rounded-2xl border border-slate-100 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.ocrScannedPages}
+              onChange={(e) => setDraft({ ...draft, ocrScannedPages: e.target.checked })}
+              className="accent-blue-600 mt-0.5"
+            />
+            <span>
+              <span className="block text-[10px] font-black text-slate-600 uppercase tracking-widest">OCR scanned PDFs on upload</span>
+              <span className="block text-[11px] text-slate-400 font-medium">Pages without a text layer are sent to the model as images right away. Otherwise the reference list offers OCR for them. Needs a model that reads images.</span>
+            </span>
+          </label>
+
+          {draft.provider === 'openai' && (
+            <div className="grid grid-cols-1 gap-4 animate-in slide-in-from-top-2">
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Server Base URL</label>
+                <input
+                  value={draft.baseUrl}
+                  onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-mono outline-none focus:border-blue-500"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Transcription Model</label>
+                <input
+                  value={draft.transcriptionModel}
+                  onChange={(e) => setDraft({ ...draft, transcriptionModel: e.target.value })}
+                  placeholder={DEFAULT_TRANSCRIPTION_MODEL}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-mono outline-none focus:border-blue-500"
+                />
+                <p className="text-[11px] text-slate-400 font-medium">Used for uploaded audio; the chat model above handles everything else.</p>
+              </div>
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">API Key (optional)</label>
+                <input
+                  type="password"
+                  value={draft.apiKey}
+                  onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-mono outline-none focus:border-blue-500"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 md:px-8 py-4 bg-slate-50 border-t border-slate-100 flex justify-end">
+          <button type="submit" className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-xl font-bold text-xs uppercase tracking-widest shadow-lg shadow-blue-500/20">
+            <CheckCircle className="w-4 h-4" /> Apply Engine
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+
+import React, { useState } from 'react';
+import { Users, UserPlus, Check } from 'lucide-react';
+import { Speaker } from '../types';
+import { SPEAKER_STYLES, MAX_SPEAKERS } from '../utils/speakers';
+
+interface SpeakerBarProps {
+  speakers: Speaker[];
+  activeSpeakerId: string | null;
+  onActivate: (id: string | null) => void;
+  onRename: (id: string, name: string) => void;
+  onAdd: () => void;
+}
+
+export const SpeakerBar: React.FC<SpeakerBarProps> = ({ speakers, activeSpeakerId, onActivate, onRename, onAdd }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const beginRename = (speaker: Speaker) => {
+    setEditingId(speaker.id);
+    setDraftName(speaker.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="px-4 md:px-8 pt-3 md:pt-4 flex items-center gap-2 flex-wrap shrink-0">
+      <div className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-slate-400 mr-1" title="Alt+1..9 switches speaker, Alt+0 stops tagging">
+        <Users className="w-3.5 h-3.5" /> Speaker
+      </div>
+      <button
+        onClick={() => onActivate(null)}
+        className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${
+          activeSpeakerId === null ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-400 border-slate-200 hover:border-slate-300'
+        }`}
+        title="Alt+0"
+      >
+        Untagged
+      </button>
+      {speakers.map((speaker, index) => {
+        const style = SPEAKER_STYLES[speaker.color];
+        const isActive = speaker.id === activeSpeakerId;
+        if (editingId === speaker.id) {
+          return (
+            <form key={speaker.id} onSubmit={(e) => { e.preventDefault(); commitRename(); }} className="flex items-center gap-1">
+              <input
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => { if (e.key === 'Escape') setEditingId(null); }}
+                className="w-28 px-2 py-1 rounded-lg border border-blue-300 text-[10px] font-bold outline-none"
+                autoFocus
+              />
+              <button type="submit" className="p-1 text-blue-600"><Check className="w-3.5 h-3.5" /></button>
+            </form>
+          );
+        }
+        return (
+          <button
+            key={speaker.id}
+            onClick={() => onActivate(speaker.id)}
+            onDoubleClick={() => beginRename(speaker)}
+            className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${
+              isActive ? `${style.chip} border-transparent ring-2 ring-offset-1 ring-slate-300` : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'
+            }`}
+            title={`Alt+${index + 1} · double-click to rename`}
+          >
+            <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+            {speaker.name}
+          </button>
+        );
+      })}
+      {speakers.length < MAX_SPEAKERS && (
+        <button onClick={onAdd} className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all" title="Add Speaker">
+          <UserPlus className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,31 +1,75 @@
 
 import React, { useEffect, useRef, useState, memo, useMemo, forwardRef, useImperativeHandle, useCallback } from 'react';
-import { Copy, Check, ArrowDown, Pencil, Save, Languages, MessageSquareText, Volume2, VolumeX, ChevronsDown, MousePointer2 } from 'lucide-react';
+import { Copy, Check, ArrowDown, Pencil, Save, Languages, MessageSquareText, Volume2, VolumeX, ChevronsDown, MousePointer2, RotateCcw, Play, Pause } from 'lucide-react';
+import { DiffPart } from '../utils/diff';
+
+export interface TranscriptItem {
+  id: string;
+  text: string;
+  timestamp?: string; // Shown as a small chip before the text when present
+  speaker?: { name: string; className: string };
+  diff?: DiffPart[]; // Rendered instead of `text` to show what the refiner changed
+  hasAudio?: boolean; // Recorded audio covers this line
+}
 
 interface TranscriptAreaProps {
   title: string;
-  text: string;
+  items: TranscriptItem[];
+  tailText?: string; // Final but not yet committed text, shown after the items
   interimText?: string;
-  onChange: (text: string) => void;
+  onEditItem: (id: string, text: string) => void;
   accentColor?: 'blue' | 'indigo' | 'emerald';
   enableTTS?: boolean;
   isTTSActive?: boolean;
   onToggleTTS?: () => void;
   onSyncScroll?: (percentage: number) => void;
   badge?: React.ReactNode;
+  footer?: React.ReactNode;
+  activeItemId?: string | null;
+  revealItemId?: string | null; // Scrolled into view whenever it changes
+  onHoverItem?: (id: string | null) => void;
+  onSelectItem?: (id: string) => void;
+  onRevertItem?: (id: string) => void; // Offered on items that carry a diff
+  onPlayItem?: (id: string) => void; // Offered on items with recorded audio
+  playingItemId?: string | null; // Under the audio playhead; highlighted and kept in view
+  isAudioPlaying?: boolean;
 }
 
+// A removal directly followed by an insertion reads as a changed word.
+const DiffText: React.FC<{ parts: DiffPart[] }> = ({ parts }) => (
+  <>
+    {parts.map((part, i) => {
+      if (part.kind === 'equal') return <span key={i}>{part.text}</span>;
+      const changed = (part.kind === 'delete' && parts[i + 1]?.kind === 'insert') || (part.kind === 'insert' && parts[i - 1]?.kind === 'delete');
+      if (part.kind === 'delete') {
+        return <del key={i} className={`rounded-sm px-0.5 ${changed ? 'bg-amber-50 text-amber-500' : 'bg-red-50 text-red-400'}`}>{part.text}</del>;
+      }
+      return <ins key={i} className={`no-underline rounded-sm px-0.5 ${changed ? 'bg-amber-100 text-amber-800' : 'bg-emerald-100 text-emerald-800'}`}>{part.text}</ins>;
+    })}
+  </>
+);
+
 export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProps>(({ 
   title, 
-  text, 
+  items, 
+  tailText = '',
   interimText = '', 
-  onChange,
+  onEditItem,
   accentColor = 'blue',
   enableTTS = false,
   isTTSActive = false,
   onToggleTTS,
   onSyncScroll,
-  badge
+  badge,
+  footer,
+  activeItemId = null,
+  revealItemId = null,
+  onHoverItem,
+  onSelectItem,
+  onRevertItem,
+  onPlayItem,
+  playingItemId = null,
+  isAudioPlaying = false
 }, ref) => {
   const localScrollRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
@@ -39,12 +83,26 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
 
   useImperativeHandle(ref, () => localScrollRef.current as HTMLDivElement);
 
-  const paragraphs = useMemo(() => {
-    return text.split('\n').filter(p => p.trim() !== '');
-  }, [text]);
+  const tailParagraphs = useMemo(() => {
+    return tailText.split('\n').filter(p => p.trim() !== '');
+  }, [tailText]);
+
+  const fullText = useMemo(() => [...items.map(i => i.text), ...tailParagraphs].join('\n'), [items, tailParagraphs]);
+
+  useEffect(() => {
+    if (!revealItemId || !localScrollRef.current) return;
+    const el = localScrollRef.current.querySelector(`[data-item-id="${revealItemId}"]`);
+    el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [revealItemId]);
+
+  useEffect(() => {
+    if (!playingItemId || isEditing || !localScrollRef.current) return;
+    const el = localScrollRef.current.querySelector(`[data-item-id="${playingItemId}"]`);
+    el?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [playingItemId, isEditing]);
 
   const handleScroll = () => {
-    if (!localScrollRef.current || isEditing) return;
+    if (!localScrollRef.current) return;
     
     const { scrollTop, scrollHeight, clientHeight } = localScrollRef.current;
     const maxScroll = scrollHeight - clientHeight;
@@ -85,11 +143,11 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
           bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
       });
     }
-  }, [text, interimText, isUserScrolling, isEditing, autoScrollEnabled]);
+  }, [items, tailText, interimText, isUserScrolling, isEditing, autoScrollEnabled]);
 
   const handleCopy = async () => {
     try {
-      await navigator.clipboard.writeText(text);
+      await navigator.clipboard.writeText(fullText);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) { console.error(err); }
@@ -107,6 +165,12 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
     indigo: 'bg-indigo-50 border-indigo-100 text-indigo-700',
   }[accentColor];
 
+  const activeStyles = {
+    blue: 'bg-blue-50 ring-2 ring-blue-200',
+    emerald: 'bg-emerald-50 ring-2 ring-emerald-200',
+    indigo: 'bg-indigo-50 ring-2 ring-indigo-200',
+  }[accentColor];
+
   const cursorStyles = {
     blue: 'bg-blue-500',
     emerald: 'bg-emerald-500',
@@ -137,7 +201,7 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
                  <button
                  onClick={onToggleTTS}
                  className={`flex items-center gap-1.5 px-2 py-1 rounded-lg transition-all ${isTTSActive ? 'bg-emerald-600 text-white shadow-sm' : 'bg-white/80 text-slate-500'}`}
-                 title="Toggle Vietnamese Speaker"
+                 title="Toggle Interpretation Reader"
                 >
                  {isTTSActive ? <Volume2 className="w-3.5 h-3.5" /> : <VolumeX className="w-3.5 h-3.5" />}
                  <span className="text-[9px] font-black uppercase hidden xs:inline">{isTTSActive ? 'Reader On' : 'Silent'}</span>
@@ -162,36 +226,74 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
       </div>
 
       <div className="flex-1 flex flex-col min-h-0 relative">
-        {isEditing ? (
-           <textarea 
-              value={text}
-              onChange={(e) => onChange(e.target.value)}
-              className="flex-1 w-full h-full p-4 md:p-6 resize-none outline-none border-none text-sm md:text-lg leading-relaxed text-slate-800 bg-slate-50/30 custom-scrollbar font-sans"
-              spellCheck={false}
-           />
-        ) : (
-          <div 
-              ref={localScrollRef}
-              onScroll={handleScroll}
-              className="flex-1 p-4 md:p-6 overflow-y-auto custom-scrollbar bg-white scroll-smooth relative"
-          >
-              <div className="flex flex-col gap-3 md:gap-4 text-sm md:text-lg leading-relaxed text-slate-800 font-medium">
-                  {paragraphs.map((para, index) => (
-                      <p key={index} className="break-words animate-in fade-in duration-500 slide-in-from-bottom-1">
-                          {para}
-                      </p>
-                  ))}
-                  
-                  {(interimText || paragraphs.length > 0) && (
-                      <div className="min-h-[1.2em] relative">
-                          {interimText && <span className="text-slate-400 italic break-words">{interimText}</span>}
-                          <span className={`inline-block w-2 h-4 md:h-5 ${cursorStyles} ml-1 align-middle animate-cursor-blink rounded-full`}></span>
-                      </div>
-                  )}
-                  <div ref={bottomRef} className="h-2 md:h-4" />
-              </div>
-          </div>
-        )}
+        <div 
+            ref={localScrollRef}
+            onScroll={handleScroll}
+            className="flex-1 p-4 md:p-6 overflow-y-auto custom-scrollbar bg-white scroll-smooth relative"
+        >
+            <div className="flex flex-col gap-3 md:gap-4 text-sm md:text-lg leading-relaxed text-slate-800 font-medium">
+                {items.map((item) => isEditing ? (
+                    <textarea
+                        key={item.id}
+                        data-item-id={item.id}
+                        value={item.text}
+                        onChange={(e) => onEditItem(item.id, e.target.value.replace(/\n+/g, ' '))}
+                        rows={Math.max(1, Math.ceil(item.text.length / 60))}
+                        className="w-full px-2 py-1 -mx-2 resize-none outline-none rounded-lg bg-slate-50/60 focus:bg-slate-50 focus:ring-2 focus:ring-blue-500/10 custom-scrollbar font-sans"
+                        spellCheck={false}
+                    />
+                ) : (
+                    <p
+                        key={item.id}
+                        data-item-id={item.id}
+                        onMouseEnter={() => onHoverItem?.(item.id)}
+                        onMouseLeave={() => onHoverItem?.(null)}
+                        onClick={() => onSelectItem?.(item.id)}
+                        className={`break-words px-2 -mx-2 rounded-lg transition-colors animate-in fade-in duration-500 slide-in-from-bottom-1 ${onSelectItem ? 'cursor-pointer' : ''} ${item.id === activeItemId ? activeStyles : item.id === playingItemId ? 'bg-amber-50 ring-2 ring-amber-200' : ''}`}
+                    >
+                        {item.hasAudio && onPlayItem && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onPlayItem(item.id); }}
+                                className={`mr-2 align-middle inline-flex items-center justify-center w-5 h-5 rounded-full transition-colors ${item.id === playingItemId ? 'bg-amber-500 text-white' : 'bg-slate-100 text-slate-400 hover:bg-blue-100 hover:text-blue-600'}`}
+                                title={item.id === playingItemId && isAudioPlaying ? 'Pause' : 'Play from this line'}
+                            >
+                                {item.id === playingItemId && isAudioPlaying ? <Pause className="w-2.5 h-2.5 fill-current" /> : <Play className="w-2.5 h-2.5 fill-current" />}
+                            </button>
+                        )}
+                        {item.speaker && (
+                            <span className={`mr-2 align-middle px-1.5 py-0.5 rounded text-[9px] md:text-[10px] font-black uppercase tracking-wider ${item.speaker.className}`}>{item.speaker.name}</span>
+                        )}
+                        {item.timestamp && (
+                            <span className="mr-2 align-middle px-1.5 py-0.5 rounded bg-slate-100 text-slate-400 font-mono text-[9px] md:text-[10px] font-bold tabular-nums">{item.timestamp}</span>
+                        )}
+                        {item.diff ? <DiffText parts={item.diff} /> : item.text}
+                        {item.diff && onRevertItem && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onRevertItem(item.id); }}
+                                className="ml-2 align-middle inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 hover:bg-amber-100 hover:text-amber-700 text-[9px] font-black uppercase tracking-wider transition-colors"
+                                title="Revert this chunk to the recognizer's wording"
+                            >
+                                <RotateCcw className="w-2.5 h-2.5" /> Raw
+                            </button>
+                        )}
+                    </p>
+                ))}
+
+                {tailParagraphs.map((para, index) => (
+                    <p key={`tail-${index}`} className="break-words text-slate-500">
+                        {para}
+                    </p>
+                ))}
+                
+                {(interimText || items.length > 0 || tailParagraphs.length > 0) && !isEditing && (
+                    <div className="min-h-[1.2em] relative">
+                        {interimText && <span className="text-slate-400 italic break-words">{interimText}</span>}
+                        <span className={`inline-block w-2 h-4 md:h-5 ${cursorStyles} ml-1 align-middle animate-cursor-blink rounded-full`}></span>
+                    </div>
+                )}
+                <div ref={bottomRef} className="h-2 md:h-4" />
+            </div>
+        </div>
 
         {showScrollButton && !isEditing && (
           <button
@@ -202,6 +304,8 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
           </button>
         )}
       </div>
+
+      {footer}
     </div>
   );
 }));
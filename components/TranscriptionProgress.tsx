@@ -0,0 +1,80 @@
+
+import React from 'react';
+import { FileAudio, Loader2, RotateCcw, X, Square, Check } from 'lucide-react';
+import { TranscriptionJob, TranscriptionChunkStatus } from '../types';
+import { formatOffset } from '../utils/time';
+
+interface TranscriptionProgressProps {
+  job: TranscriptionJob | null;
+  isRunning: boolean;
+  isDecoding: boolean;
+  hasAudio: boolean;
+  error: string | null;
+  onResume: () => void;
+  onCancel: () => void;
+  onDiscard: () => void;
+}
+
+const CHUNK_STYLES: Record<TranscriptionChunkStatus, string> = {
+  pending: 'bg-slate-200',
+  running: 'bg-blue-500 animate-pulse',
+  done: 'bg-emerald-500',
+  failed: 'bg-red-500',
+};
+
+// One cell per chunk of an uploaded recording, with the controls to stop, resume or drop the run.
+export const TranscriptionProgress: React.FC<TranscriptionProgressProps> = ({ job, isRunning, isDecoding, hasAudio, error, onResume, onCancel, onDiscard }) => {
+  if (!job && !isDecoding && !error) return null;
+  const done = job ? job.chunks.filter(c => c.status === 'done').length : 0;
+  const total = job?.chunks.length || 0;
+  const isComplete = !!job && done === total;
+  const failed = job?.chunks.find(c => c.status === 'failed');
+
+  const status = isDecoding ? 'Decoding audio'
+    : !job ? ''
+    : isComplete ? `Transcribed ${total} chunk${total === 1 ? '' : 's'}`
+    : isRunning ? `Chunk ${Math.min(done + 1, total)} of ${total}`
+    : `${done} of ${total} chunks done`;
+
+  return (
+    <div className="bg-white border-b border-slate-200 px-4 md:px-8 py-2 shrink-0 z-10 space-y-1.5">
+      <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest">
+        {isRunning || isDecoding ? <Loader2 className="w-3 h-3 text-blue-600 animate-spin shrink-0" /> : isComplete ? <Check className="w-3 h-3 text-emerald-600 shrink-0" /> : <FileAudio className="w-3 h-3 text-slate-400 shrink-0" />}
+        {job && <span className="text-slate-700 truncate normal-case tracking-normal font-bold text-[11px]" title={job.fileName}>{job.fileName}</span>}
+        <span className="text-slate-400 shrink-0">{status}</span>
+        <div className="ml-auto flex items-center gap-1 shrink-0">
+          {isRunning && (
+            <button onClick={onCancel} className="flex items-center gap-1 px-2 py-1 rounded-lg text-slate-500 hover:bg-slate-100 transition-colors" title="Stop after discarding the chunk in flight; progress is kept">
+              <Square className="w-2.5 h-2.5" /> Stop
+            </button>
+          )}
+          {job && !isRunning && !isComplete && hasAudio && (
+            <button onClick={onResume} className="flex items-center gap-1 px-2 py-1 rounded-lg text-blue-600 hover:bg-blue-50 transition-colors" title="Continue from the first unfinished chunk">
+              <RotateCcw className="w-2.5 h-2.5" /> {failed ? 'Retry' : 'Resume'}
+            </button>
+          )}
+          {!isRunning && !isDecoding && (
+            <button onClick={onDiscard} className="p-1 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-600 transition-colors" title={job && !isComplete ? 'Discard the saved progress' : 'Dismiss'}>
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+      {job && (
+        <div className="flex gap-px h-1.5 rounded-full overflow-hidden">
+          {job.chunks.map(chunk => (
+            <div
+              key={chunk.index}
+              className={`flex-1 ${CHUNK_STYLES[chunk.status]}`}
+              title={`${formatOffset(chunk.startMs)}–${formatOffset(chunk.endMs)}${chunk.error ? `: ${chunk.error}` : ''}`}
+            />
+          ))}
+        </div>
+      )}
+      {error && <p className="text-[11px] font-bold text-red-600">{error}{failed?.error ? ` ${failed.error}` : ''}</p>}
+      {job && !isComplete && !isRunning && !hasAudio && (
+        <p className="text-[11px] font-bold text-slate-500">Upload {job.fileName} again to resume where it stopped.</p>
+      )}
+    </div>
+  );
+};
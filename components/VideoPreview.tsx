@@ -0,0 +1,105 @@
+
+import React, { useState, useEffect } from 'react';
+import { Film, X, Captions } from 'lucide-react';
+import { Segment } from '../types';
+import { segmentAt, segmentSource } from '../utils/segments';
+import { formatOffset } from '../utils/time';
+
+// A video that covers part of the session timeline, starting at `startOffsetMs`.
+export interface VideoSource {
+  blob: Blob;
+  name: string;
+  startOffsetMs: number;
+}
+
+interface VideoPreviewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  source: VideoSource | null;
+  segments: Segment[];
+  onPlay: () => void; // The session player is paused so the two do not talk over each other
+}
+
+export const VideoPreview: React.FC<VideoPreviewProps> = ({ isOpen, onClose, source, segments, onPlay }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [offsetMs, setOffsetMs] = useState<number | null>(null);
+  const [showSource, setShowSource] = useState(true);
+  const [showTranslation, setShowTranslation] = useState(true);
+
+  useEffect(() => {
+    setOffsetMs(null);
+    if (!isOpen || !source) { setUrl(null); return; }
+    const next = URL.createObjectURL(source.blob);
+    setUrl(next);
+    return () => URL.revokeObjectURL(next);
+  }, [isOpen, source?.blob]);
+
+  if (!isOpen || !source) return null;
+
+  const handleTime = (e: React.SyntheticEvent<HTMLVideoElement>) =>
+    setOffsetMs(source.startOffsetMs + e.currentTarget.currentTime * 1000);
+
+  // A short grace keeps a line up through the pause before the next one.
+  const caption = offsetMs !== null ? segmentAt(segments, offsetMs, 1000) : null;
+  const sourceLine = caption ? segmentSource(caption) : '';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-4xl rounded-[32px] shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
+        <div className="px-6 md:px-8 py-5 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 bg-blue-600 rounded-xl flex items-center justify-center text-white shadow-lg shrink-0">
+              <Film className="w-5 h-5" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-lg font-black uppercase tracking-tight">Video Preview</h2>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest truncate" title={source.name}>{source.name} · From {formatOffset(source.startOffsetMs)}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="relative bg-black">
+          {url && (
+            <video
+              src={url}
+              controls
+              onPlay={onPlay}
+              onTimeUpdate={handleTime}
+              onSeeked={handleTime}
+              className="w-full max-h-[65vh]"
+            />
+          )}
+          {caption && (showSource || showTranslation) && (
+            <div className="absolute inset-x-0 bottom-14 flex justify-center px-6 pointer-events-none">
+              <div className="max-w-3xl text-center space-y-1">
+                {showSource && sourceLine && (
+                  <p><span className="inline-block px-3 py-1 rounded-lg bg-black/70 text-white text-sm md:text-base font-bold leading-snug">{sourceLine}</span></p>
+                )}
+                {showTranslation && caption.translation && (
+                  <p><span className="inline-block px-3 py-1 rounded-lg bg-black/70 text-amber-300 text-sm md:text-base font-bold leading-snug">{caption.translation}</span></p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-8 py-4 bg-slate-50 border-t border-slate-100 flex items-center justify-between gap-4 text-[9px] text-slate-400 font-bold uppercase tracking-widest">
+          <span className="flex items-center gap-1.5"><Captions className="w-3.5 h-3.5" /> Captions follow the session transcript</span>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input type="checkbox" checked={showSource} onChange={(e) => setShowSource(e.target.checked)} className="accent-blue-600" />
+              Source
+            </label>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input type="checkbox" checked={showTranslation} onChange={(e) => setShowTranslation(e.target.checked)} className="accent-blue-600" />
+              Translation
+            </label>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { TranscriptionStatus, AudioChunk } from '../types';
+import { saveAudioChunk } from '../services/sessionStore';
+import { generateId } from '../utils/id';
+
+interface UseAudioCaptureOptions {
+  sessionId: string | null;
+  status: TranscriptionStatus;
+  clock: () => number; // Session-relative offset in ms, shared with the recognizer
+  onChunk: (chunk: AudioChunk) => void; // After the chunk is stored
+  onStorageError: (error: unknown) => void;
+}
+
+interface UseAudioCaptureReturn {
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => void;
+  isCapturing: boolean;
+  error: string | null;
+}
+
+interface ActiveTake {
+  recorder: MediaRecorder;
+  sessionId: string;
+  id: string;
+  startOffsetMs: number;
+  seq: number;
+  // Recorded time so far, which keeps chunk offsets right even after the session clock moves on.
+  accumulatedMs: number;
+  runStartedAt: number | null;
+}
+
+const PREF_KEY = 'scribe_record_audio_v1';
+// Each timeslice is stored as it arrives, so this bounds what a crash can lose.
+const TIMESLICE_MS = 5000;
+const PREFERRED_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+const recordedMs = (take: ActiveTake) => take.accumulatedMs + (take.runStartedAt !== null ? Date.now() - take.runStartedAt : 0);
+
+// Follows the recognizer's status: a take starts with recording, pauses with it and
+// ends on stop, on a session switch or when capture is turned off. The microphone is
+// opened separately from speech recognition, which does not expose its audio.
+export const useAudioCapture = ({ sessionId, status, clock, onChunk, onStorageError }: UseAudioCaptureOptions): UseAudioCaptureReturn => {
+  const [enabled, setEnabledState] = useState(() => localStorage.getItem(PREF_KEY) === '1');
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const takeRef = useRef<ActiveTake | null>(null);
+  const startingRef = useRef(false);
+  const wantedRef = useRef({ enabled, sessionId, status });
+  wantedRef.current = { enabled, sessionId, status };
+  const callbacksRef = useRef({ clock, onChunk, onStorageError });
+  callbacksRef.current = { clock, onChunk, onStorageError };
+
+  const setEnabled = useCallback((value: boolean) => {
+    localStorage.setItem(PREF_KEY, value ? '1' : '0');
+    setEnabledState(value);
+    if (!value) setError(null);
+  }, []);
+
+  const endTake = useCallback(() => {
+    const take = takeRef.current;
+    if (!take) return;
+    takeRef.current = null;
+    if (take.runStartedAt !== null) take.accumulatedMs += Date.now() - take.runStartedAt;
+    take.runStartedAt = null;
+    if (take.recorder.state !== 'inactive') take.recorder.stop();
+    setIsCapturing(false);
+  }, []);
+
+  const startTake = async (forSession: string) => {
+    startingRef.current = true;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const wanted = wantedRef.current;
+      // Recording may have stopped, or the session changed, while permission was pending.
+      if (!wanted.enabled || wanted.sessionId !== forSession || wanted.status !== TranscriptionStatus.RECORDING) {
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      const mimeType = PREFERRED_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const take: ActiveTake = {
+        recorder,
+        sessionId: forSession,
+        id: generateId(),
+        startOffsetMs: callbacksRef.current.clock(),
+        seq: 0,
+        accumulatedMs: 0,
+        runStartedAt: Date.now(),
+      };
+      recorder.ondataavailable = (e: BlobEvent) => {
+        if (e.data.size === 0) return;
+        const chunk: AudioChunk = {
+          id: generateId(),
+          sessionId: take.sessionId,
+          takeId: take.id,
+          seq: take.seq++,
+          startOffsetMs: take.startOffsetMs,
+          endOffsetMs: take.startOffsetMs + recordedMs(take),
+          mimeType: recorder.mimeType || e.data.type,
+          bytes: e.data.size,
+          blob: e.data,
+        };
+        saveAudioChunk(chunk)
+          .then(() => callbacksRef.current.onChunk(chunk))
+          .catch(err => callbacksRef.current.onStorageError(err));
+      };
+      recorder.onstop = () => stream.getTracks().forEach(t => t.stop());
+      recorder.start(TIMESLICE_MS);
+      takeRef.current = take;
+      setIsCapturing(true);
+      setError(null);
+    } catch (e: any) {
+      console.error("Audio capture error", e);
+      setError(e?.name === 'NotAllowedError' ? 'Microphone access was denied; audio is not being kept.' : 'Audio could not be recorded in this browser.');
+    } finally {
+      startingRef.current = false;
+    }
+    sync();
+  };
+
+  const sync = () => {
+    const { enabled: wantsAudio, sessionId: current, status: now } = wantedRef.current;
+    const take = takeRef.current;
+    if (take && (!wantsAudio || take.sessionId !== current || now === TranscriptionStatus.STOPPED || now === TranscriptionStatus.IDLE)) {
+      endTake();
+    } else if (take && now === TranscriptionStatus.PAUSED && take.recorder.state === 'recording') {
+      take.recorder.pause();
+      if (take.runStartedAt !== null) take.accumulatedMs += Date.now() - take.runStartedAt;
+      take.runStartedAt = null;
+    } else if (take && now === TranscriptionStatus.RECORDING && take.recorder.state === 'paused') {
+      take.recorder.resume();
+      take.runStartedAt = Date.now();
+    }
+    if (!takeRef.current && !startingRef.current && wantsAudio && current && now === TranscriptionStatus.RECORDING) {
+      startTake(current);
+    }
+  };
+
+  useEffect(() => { sync(); }, [enabled, sessionId, status]);
+
+  useEffect(() => () => endTake(), [endTake]);
+
+  return { enabled, setEnabled, isCapturing, error };
+};
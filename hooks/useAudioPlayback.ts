@@ -0,0 +1,180 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { AudioChunk } from '../types';
+import { listAudioChunks } from '../services/sessionStore';
+import { AudioTake, groupTakes, takeAt, takeBlob } from '../utils/audio';
+
+interface UseAudioPlaybackReturn {
+  takes: AudioTake[];
+  audioBytes: number;
+  isPlaying: boolean;
+  positionMs: number | null; // Session offset of the playhead; null until something is played
+  rate: number;
+  setRate: (rate: number) => void;
+  hasAudioAt: (offsetMs: number) => boolean;
+  seek: (offsetMs: number, play?: boolean) => void;
+  skip: (deltaMs: number) => void;
+  toggle: () => void;
+  stop: () => void; // Also clears the playhead
+  addChunk: (chunk: AudioChunk) => void;
+  reload: () => void;
+}
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+// MediaRecorder WebM carries no duration or cues. Seeking far past the end once
+// makes the browser scan the file, after which seeks land where they should.
+const ensureSeekable = (audio: HTMLAudioElement) => new Promise<void>(resolve => {
+  if (Number.isFinite(audio.duration)) return resolve();
+  audio.addEventListener('durationchange', () => resolve(), { once: true });
+  audio.currentTime = 1e101;
+});
+
+const whenLoaded = (audio: HTMLAudioElement) => new Promise<void>((resolve, reject) => {
+  if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) return resolve();
+  audio.addEventListener('loadedmetadata', () => resolve(), { once: true });
+  audio.addEventListener('error', () => reject(audio.error), { once: true });
+});
+
+// The take that should play for an offset: the one covering it, else the next one
+// after it, else the last one (so skipping past the end lands on the final second).
+const takeFor = (takes: AudioTake[], offsetMs: number) =>
+  takeAt(takes, offsetMs) || takes.find(t => t.startOffsetMs > offsetMs) || takes[takes.length - 1] || null;
+
+// Plays the session's audio on the session timeline. Takes are played back to back,
+// skipping the gaps between them, so seeking by a line's offset lands on its audio.
+export const useAudioPlayback = (sessionId: string | null): UseAudioPlaybackReturn => {
+  const [chunks, setChunks] = useState<AudioChunk[]>([]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState<number | null>(null);
+  const [rate, setRateState] = useState(1);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // The take loaded into the element, keyed by id and chunk count since a take keeps
+  // growing while it is being recorded.
+  const loadedRef = useRef<{ key: string; url: string; take: AudioTake } | null>(null);
+  const takesRef = useRef<AudioTake[]>([]);
+  const rateRef = useRef(rate);
+  const sessionRef = useRef(sessionId);
+  sessionRef.current = sessionId;
+  // Bumped by every seek so an older seek still waiting on metadata gives way.
+  const seekTokenRef = useRef(0);
+  const seekingRef = useRef(false);
+
+  const takes = useMemo(() => groupTakes(chunks).sort((a, b) => a.startOffsetMs - b.startOffsetMs), [chunks]);
+  takesRef.current = takes;
+  const audioBytes = useMemo(() => chunks.reduce((total, c) => total + c.bytes, 0), [chunks]);
+
+  const stop = useCallback(() => {
+    seekTokenRef.current++;
+    audioRef.current?.pause();
+    setIsPlaying(false);
+    setPositionMs(null);
+  }, []);
+
+  const unload = useCallback(() => {
+    stop();
+    if (loadedRef.current) URL.revokeObjectURL(loadedRef.current.url);
+    loadedRef.current = null;
+    audioRef.current?.removeAttribute('src');
+  }, [stop]);
+
+  const reload = useCallback(() => {
+    const id = sessionId;
+    unload();
+    setChunks([]);
+    if (!id) return;
+    listAudioChunks(id)
+      .then(stored => { if (sessionRef.current === id) setChunks(stored); })
+      .catch(e => console.error("Audio read error", e));
+  }, [sessionId, unload]);
+
+  useEffect(() => { reload(); }, [reload]);
+
+  useEffect(() => () => unload(), [unload]);
+
+  const addChunk = useCallback((chunk: AudioChunk) => {
+    if (chunk.sessionId === sessionRef.current) setChunks(prev => [...prev, chunk]);
+  }, []);
+
+  const seekRef = useRef<(offsetMs: number, play?: boolean) => void>(() => {});
+
+  const element = () => {
+    if (!audioRef.current) {
+      const audio = new Audio();
+      audio.addEventListener('timeupdate', () => {
+        const loaded = loadedRef.current;
+        if (loaded && audio.src && !seekingRef.current) setPositionMs(loaded.take.startOffsetMs + audio.currentTime * 1000);
+      });
+      audio.addEventListener('play', () => setIsPlaying(true));
+      audio.addEventListener('pause', () => setIsPlaying(false));
+      audio.addEventListener('ended', () => {
+        const loaded = loadedRef.current;
+        if (!loaded) return;
+        const current = takesRef.current.find(t => t.id === loaded.take.id);
+        // Still recording: the take has grown since it was loaded, so carry on in it.
+        if (current && current.chunks.length !== loaded.take.chunks.length) {
+          seekRef.current(loaded.take.startOffsetMs + audio.currentTime * 1000);
+          return;
+        }
+        const next = takesRef.current.find(t => t.startOffsetMs > loaded.take.startOffsetMs);
+        if (next) seekRef.current(next.startOffsetMs);
+        else setPositionMs(null);
+      });
+      audioRef.current = audio;
+    }
+    return audioRef.current;
+  };
+
+  const seek = useCallback(async (offsetMs: number, play = true) => {
+    const take = takeFor(takesRef.current, offsetMs);
+    if (!take) return;
+    const token = ++seekTokenRef.current;
+    const audio = element();
+    const target = Math.min(Math.max(offsetMs, take.startOffsetMs), take.endOffsetMs);
+    setPositionMs(target);
+    seekingRef.current = true;
+    try {
+      const key = `${take.id}:${take.chunks.length}`;
+      if (loadedRef.current?.key !== key) {
+        audio.pause();
+        if (loadedRef.current) URL.revokeObjectURL(loadedRef.current.url);
+        loadedRef.current = { key, url: URL.createObjectURL(takeBlob(take)), take };
+        audio.src = loadedRef.current.url;
+      }
+      await whenLoaded(audio);
+      await ensureSeekable(audio);
+      if (token !== seekTokenRef.current) return;
+      audio.playbackRate = rateRef.current;
+      audio.currentTime = (target - take.startOffsetMs) / 1000;
+      seekingRef.current = false;
+      if (play) await audio.play();
+    } catch (e) {
+      console.error("Audio playback error", e);
+      if (token === seekTokenRef.current) stop();
+    } finally {
+      if (token === seekTokenRef.current) seekingRef.current = false;
+    }
+  }, [stop]);
+  seekRef.current = seek;
+
+  const skip = useCallback((deltaMs: number) => {
+    const from = positionMs ?? takesRef.current[0]?.startOffsetMs ?? 0;
+    seek(from + deltaMs, isPlaying);
+  }, [positionMs, isPlaying, seek]);
+
+  const toggle = useCallback(() => {
+    const audio = audioRef.current;
+    if (isPlaying) { audio?.pause(); return; }
+    if (audio && loadedRef.current && positionMs !== null && !audio.ended) { audio.play().catch(e => console.error("Audio playback error", e)); return; }
+    seek(positionMs ?? takesRef.current[0]?.startOffsetMs ?? 0);
+  }, [isPlaying, positionMs, seek]);
+
+  const setRate = useCallback((value: number) => {
+    rateRef.current = value;
+    setRateState(value);
+    if (audioRef.current) audioRef.current.playbackRate = value;
+  }, []);
+
+  const hasAudioAt = useCallback((offsetMs: number) => !!takeAt(takes, offsetMs), [takes]);
+
+  return { takes, audioBytes, isPlaying, positionMs, rate, setRate, hasAudioAt, seek, skip, toggle, stop, addChunk, reload };
+};
@@ -0,0 +1,163 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { LanguagePair, TranscriptionChunk, TranscriptionJob } from '../types';
+import { AIProvider } from '../services/aiProvider';
+import { saveTranscriptionJob, loadTranscriptionJob, listTranscriptionJobs, deleteTranscriptionJob } from '../services/sessionStore';
+import { DecodedAudio, TimedLine, decodeUpload, transcriptionJobId, planChunks, createTranscriptionJob, transcribeChunk, carryText, carrySpeakers } from '../services/audioTranscription';
+
+interface UseAudioTranscriptionOptions {
+  provider: AIProvider | null;
+  sessionId: string | null;
+  pair: LanguagePair;
+  contextDesc: string;
+  terms: string[]; // Glossary terms to spell as written
+  // Called once for a new upload, never on resume; resolves with the session offset the file starts at.
+  placeUpload: (file: File, durationMs: number) => Promise<number>;
+  onLines: (lines: TimedLine[]) => void; // Each finished chunk, in order
+  onStorageError: (error: unknown) => void;
+}
+
+interface UseAudioTranscriptionReturn {
+  job: TranscriptionJob | null;
+  isRunning: boolean;
+  isDecoding: boolean;
+  hasAudio: boolean; // False for a job found in the Vault until its file is uploaded again
+  error: string | null;
+  start: (file: File, diarize: boolean) => Promise<void>;
+  resume: () => void;
+  cancel: () => void;
+  discard: () => void;
+}
+
+// Runs one job at a time for the active session, chunk by chunk and in order, so its
+// lines are appended in the order they were spoken. A failed chunk stops the run;
+// resuming picks up at that chunk.
+export const useAudioTranscription = (options: UseAudioTranscriptionOptions): UseAudioTranscriptionReturn => {
+  const { sessionId } = options;
+  const [job, setJob] = useState<TranscriptionJob | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const jobRef = useRef<TranscriptionJob | null>(null);
+  const audioRef = useRef<{ decoded: DecodedAudio; fileName: string } | null>(null);
+  // Bumped to stop a run; a chunk that returns after that is dropped and stays pending.
+  const runRef = useRef(0);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const commit = (next: TranscriptionJob | null) => {
+    jobRef.current = next;
+    setJob(next);
+  };
+
+  const persist = (next: TranscriptionJob) => {
+    commit(next);
+    saveTranscriptionJob(next).catch(e => optionsRef.current.onStorageError(e));
+  };
+
+  const setChunk = (index: number, patch: Partial<TranscriptionChunk>) => {
+    const current = jobRef.current!;
+    return { ...current, updatedAt: Date.now(), chunks: current.chunks.map(c => c.index === index ? { ...c, ...patch } : c) };
+  };
+
+  const cancel = useCallback(() => {
+    runRef.current++;
+    setIsRunning(false);
+    const current = jobRef.current;
+    if (current?.chunks.some(c => c.status === 'running')) {
+      commit({ ...current, chunks: current.chunks.map(c => c.status === 'running' ? { ...c, status: 'pending' } : c) });
+    }
+  }, []);
+
+  // A session switch stops the run; an unfinished job of the new session is offered for resuming.
+  useEffect(() => {
+    cancel();
+    audioRef.current = null;
+    commit(null);
+    setError(null);
+    if (!sessionId) return;
+    listTranscriptionJobs(sessionId)
+      .then(jobs => { if (optionsRef.current.sessionId === sessionId && !jobRef.current && jobs[0]) commit(jobs[0]); })
+      .catch(e => console.error("Transcription job read error", e));
+  }, [sessionId, cancel]);
+
+  const run = async () => {
+    const token = ++runRef.current;
+    const audio = audioRef.current;
+    if (!audio || !jobRef.current) return;
+    setIsRunning(true);
+    setError(null);
+    for (const chunk of jobRef.current.chunks) {
+      if (chunk.status === 'done') continue;
+      const { provider, pair, contextDesc, terms } = optionsRef.current;
+      if (!provider) { setError('No AI engine is configured.'); break; }
+      commit(setChunk(chunk.index, { status: 'running', error: undefined }));
+      const current = jobRef.current!;
+      try {
+        const lines = await transcribeChunk(provider, audio.decoded, audio.fileName, chunk, {
+          pair, contextDesc, terms, diarize: current.diarize, previousText: current.previousText, knownSpeakers: current.speakerLabels, baseOffsetMs: current.baseOffsetMs,
+        });
+        if (token !== runRef.current) return;
+        optionsRef.current.onLines(lines);
+        persist({
+          ...setChunk(chunk.index, { status: 'done' }),
+          previousText: carryText(lines) || current.previousText,
+          speakerLabels: carrySpeakers(current.speakerLabels, lines),
+        });
+      } catch (e: any) {
+        if (token !== runRef.current) return;
+        console.error("Chunk transcription error", e);
+        persist(setChunk(chunk.index, { status: 'failed', error: e?.message || 'Transcription failed.' }));
+        setError(`Chunk ${chunk.index + 1} of ${current.chunks.length} failed.`);
+        break;
+      }
+    }
+    if (token !== runRef.current) return;
+    setIsRunning(false);
+    const finished = jobRef.current;
+    if (finished && finished.chunks.every(c => c.status === 'done')) {
+      deleteTranscriptionJob(finished.id).catch(e => optionsRef.current.onStorageError(e));
+      audioRef.current = null;
+    }
+  };
+
+  const start = async (file: File, diarize: boolean) => {
+    const forSession = optionsRef.current.sessionId;
+    if (!forSession) return;
+    cancel();
+    setError(null);
+    setIsDecoding(true);
+    let decoded: DecodedAudio;
+    try {
+      decoded = await decodeUpload(file);
+    } catch (e: any) {
+      setError(e?.message || `${file.name} could not be decoded.`);
+      return;
+    } finally {
+      setIsDecoding(false);
+    }
+    if (optionsRef.current.sessionId !== forSession) return;
+    audioRef.current = { decoded, fileName: file.name };
+    const id = transcriptionJobId(forSession, file);
+    const existing = await loadTranscriptionJob(id).catch(() => null);
+    if (existing) {
+      commit(existing);
+    } else {
+      const baseOffsetMs = await optionsRef.current.placeUpload(file, decoded.durationMs);
+      persist(createTranscriptionJob(id, forSession, file, baseOffsetMs, diarize, planChunks(decoded)));
+    }
+    run();
+  };
+
+  const resume = () => { if (!isRunning) run(); };
+
+  const discard = () => {
+    const current = jobRef.current;
+    cancel();
+    audioRef.current = null;
+    commit(null);
+    setError(null);
+    if (current) deleteTranscriptionJob(current.id).catch(e => optionsRef.current.onStorageError(e));
+  };
+
+  return { job, isRunning, isDecoding, hasAudio: !!audioRef.current, error, start, resume, cancel, discard };
+};
@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { SessionMetadata } from '../types';
+import { AIProvider, isAbortError } from '../services/aiProvider';
+import { BatchJob, BatchSettings, BatchStage, createBatchJob, processBatchFile } from '../services/batchPipeline';
+
+interface UseBatchQueueOptions {
+  provider: AIProvider | null;
+  onSession: (meta: SessionMetadata) => void;
+}
+
+interface UseBatchQueueReturn {
+  jobs: BatchJob[];
+  isRunning: boolean;
+  busySessionIds: string[]; // Sessions a job is still writing, including one cancelled mid-request
+  enqueue: (files: File[], settings: BatchSettings) => void;
+  cancel: (id: string) => void;
+  clearFinished: () => void;
+}
+
+const FINISHED: BatchStage[] = ['done', 'failed', 'cancelled'];
+
+export const isFinishedStage = (stage: BatchStage) => FINISHED.includes(stage);
+
+// Files are processed one at a time, in the order they were queued. Provider calls
+// are already rate limited per request, and one file at a time keeps decoded audio
+// for a single recording in memory.
+export const useBatchQueue = ({ provider, onSession }: UseBatchQueueOptions): UseBatchQueueReturn => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const settingsRef = useRef(new Map<string, BatchSettings>());
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const callbacksRef = useRef({ provider, onSession });
+  callbacksRef.current = { provider, onSession };
+
+  const patch = (id: string, changes: Partial<BatchJob>) => setJobs(prev => prev.map(j => j.id === id ? { ...j, ...changes } : j));
+
+  const enqueue = useCallback((files: File[], settings: BatchSettings) => {
+    const queued = files.map(createBatchJob);
+    queued.forEach(job => settingsRef.current.set(job.id, settings));
+    setJobs(prev => [...prev, ...queued]);
+  }, []);
+
+  // Shown as cancelled at once. Provider calls cannot be interrupted, so a running job
+  // stops when its current request returns; the next file waits until then.
+  const cancel = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    setJobs(prev => prev.map(j => j.id === id && !isFinishedStage(j.stage) ? { ...j, stage: 'cancelled' } : j));
+  }, []);
+
+  // A job cancelled mid-request stays listed until it has stopped writing its session.
+  const clearFinished = useCallback(() => setJobs(prev => prev.filter(j => !isFinishedStage(j.stage) || j.id === runningId)), [runningId]);
+
+  const run = async (job: BatchJob) => {
+    const { provider: current } = callbacksRef.current;
+    const settings = settingsRef.current.get(job.id);
+    if (!current || !settings) {
+      patch(job.id, { stage: 'failed', error: 'No AI engine is configured.' });
+      return;
+    }
+    const controller = new AbortController();
+    controllersRef.current.set(job.id, controller);
+    setRunningId(job.id);
+    try {
+      await processBatchFile(job, current, settings, {
+        onProgress: (stage, done, total) => { if (!controller.signal.aborted) patch(job.id, { stage, done, total }); },
+        onSession: (meta) => { patch(job.id, { sessionId: meta.id }); callbacksRef.current.onSession(meta); },
+      }, controller.signal);
+    } catch (e: any) {
+      if (isAbortError(e) || controller.signal.aborted) patch(job.id, { stage: 'cancelled' });
+      else {
+        console.error("Batch job error", e);
+        patch(job.id, { stage: 'failed', error: e?.message || 'Processing failed.' });
+      }
+    } finally {
+      controllersRef.current.delete(job.id);
+      settingsRef.current.delete(job.id);
+      setRunningId(null);
+    }
+  };
+
+  useEffect(() => {
+    if (runningId) return;
+    const next = jobs.find(j => j.stage === 'queued');
+    if (next) run(next);
+  }, [jobs, runningId]);
+
+  useEffect(() => () => controllersRef.current.forEach(c => c.abort()), []);
+
+  const busySessionIds = useMemo(() => jobs
+    .filter(j => j.sessionId && (!isFinishedStage(j.stage) || j.id === runningId))
+    .map(j => j.sessionId!), [jobs, runningId]);
+
+  return { jobs, isRunning: runningId !== null, busySessionIds, enqueue, cancel, clearFinished };
+};
@@ -0,0 +1,168 @@
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { LiveTurn } from '../types';
+import { LiveTransport, LiveTransportSession, LIVE_INPUT_SAMPLE_RATE, LIVE_OUTPUT_SAMPLE_RATE } from '../services/liveInterpreter';
+import { encodePcm16, decodePcm16 } from '../utils/audio';
+
+interface UseLiveInterpreterReturn {
+  isActive: boolean;
+  isConnecting: boolean;
+  isSpeaking: boolean;
+  turns: LiveTurn[];
+  error: string | null;
+  start: (systemInstruction: string) => Promise<void>;
+  stop: () => void;
+  clearTurns: () => void;
+}
+
+const CAPTURE_BUFFER_SIZE = 4096;
+
+export const useLiveInterpreter = (transport: LiveTransport | null): UseLiveInterpreterReturn => {
+  const [isActive, setIsActive] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [turns, setTurns] = useState<LiveTurn[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const sessionRef = useRef<LiveTransportSession | null>(null);
+  // Bumped by stop and unmount, so a start still waiting on the mic or the socket gives up.
+  const startRef = useRef(0);
+  const micStreamRef = useRef<MediaStream | null>(null);
+  const inputCtxRef = useRef<AudioContext | null>(null);
+  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const outputCtxRef = useRef<AudioContext | null>(null);
+  const nextPlayTimeRef = useRef(0);
+  const playingRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // A turn stays open until the server reports turnComplete; transcripts append to it.
+  const turnOpenRef = useRef(false);
+
+  const appendToTurn = useCallback((field: keyof LiveTurn, fragment: string) => {
+    setTurns(prev => {
+      if (!turnOpenRef.current || prev.length === 0) {
+        turnOpenRef.current = true;
+        return [...prev, { user: '', ai: '', [field]: fragment }];
+      }
+      const last = prev[prev.length - 1];
+      return [...prev.slice(0, -1), { ...last, [field]: last[field] + fragment }];
+    });
+  }, []);
+
+  const flushPlayback = useCallback(() => {
+    playingRef.current.forEach(src => { try { src.stop(); } catch (e) {} });
+    playingRef.current.clear();
+    nextPlayTimeRef.current = 0;
+    setIsSpeaking(false);
+  }, []);
+
+  const playChunk = useCallback((base64Pcm: string) => {
+    const ctx = outputCtxRef.current;
+    if (!ctx) return;
+    const buffer = decodePcm16(ctx, base64Pcm, LIVE_OUTPUT_SAMPLE_RATE);
+    const src = ctx.createBufferSource();
+    src.buffer = buffer;
+    src.connect(ctx.destination);
+    const startAt = Math.max(nextPlayTimeRef.current, ctx.currentTime);
+    src.start(startAt);
+    nextPlayTimeRef.current = startAt + buffer.duration;
+    playingRef.current.add(src);
+    setIsSpeaking(true);
+    src.onended = () => {
+      playingRef.current.delete(src);
+      if (playingRef.current.size === 0) setIsSpeaking(false);
+    };
+  }, []);
+
+  const teardown = useCallback(() => {
+    processorRef.current?.disconnect();
+    processorRef.current = null;
+    micStreamRef.current?.getTracks().forEach(t => t.stop());
+    micStreamRef.current = null;
+    inputCtxRef.current?.close();
+    inputCtxRef.current = null;
+    flushPlayback();
+    outputCtxRef.current?.close();
+    outputCtxRef.current = null;
+    turnOpenRef.current = false;
+  }, [flushPlayback]);
+
+  const stop = useCallback(() => {
+    startRef.current++;
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    session?.close();
+    teardown();
+    setIsActive(false);
+    setIsConnecting(false);
+  }, [teardown]);
+
+  const start = useCallback(async (systemInstruction: string) => {
+    if (sessionRef.current || !transport) {
+      if (!transport) setError('Live mode requires an API key or a live server URL.');
+      return;
+    }
+    const token = ++startRef.current;
+    const isStale = () => token !== startRef.current;
+    setError(null);
+    setIsConnecting(true);
+
+    let session: LiveTransportSession | null = null;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+      if (isStale()) {
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      micStreamRef.current = stream;
+      inputCtxRef.current = new AudioContext({ sampleRate: LIVE_INPUT_SAMPLE_RATE });
+      outputCtxRef.current = new AudioContext({ sampleRate: LIVE_OUTPUT_SAMPLE_RATE });
+
+      session = await transport.connect(systemInstruction, {
+        onInputTranscript: (t) => appendToTurn('user', t),
+        onOutputTranscript: (t) => appendToTurn('ai', t),
+        onAudio: playChunk,
+        onTurnComplete: () => { turnOpenRef.current = false; },
+        onInterrupted: flushPlayback,
+        onError: (msg) => setError(msg),
+        onClose: () => {
+          if (!session || sessionRef.current !== session) return;
+          sessionRef.current = null;
+          teardown();
+          setIsActive(false);
+        },
+      });
+      if (isStale()) {
+        // stop() has already torn down this attempt's mic and audio contexts, unless a
+        // newer start owns them by now.
+        session.close();
+        if (micStreamRef.current === stream) teardown();
+        return;
+      }
+      sessionRef.current = session;
+
+      const inputCtx = inputCtxRef.current!;
+      const source = inputCtx.createMediaStreamSource(stream);
+      const processor = inputCtx.createScriptProcessor(CAPTURE_BUFFER_SIZE, 1, 1);
+      processor.onaudioprocess = (ev) => {
+        sessionRef.current?.sendAudio(encodePcm16(ev.inputBuffer.getChannelData(0)));
+      };
+      source.connect(processor);
+      processor.connect(inputCtx.destination);
+      processorRef.current = processor;
+
+      setIsActive(true);
+    } catch (e: any) {
+      if (isStale()) return;
+      console.error("Live session error", e);
+      setError(e?.message || 'Could not start live interpretation.');
+      teardown();
+    } finally {
+      if (!isStale()) setIsConnecting(false);
+    }
+  }, [transport, appendToTurn, playChunk, flushPlayback, teardown]);
+
+  const clearTurns = useCallback(() => { setTurns([]); turnOpenRef.current = false; }, []);
+
+  useEffect(() => () => { startRef.current++; sessionRef.current?.close(); sessionRef.current = null; teardown(); }, [teardown]);
+
+  return { isActive, isConnecting, isSpeaking, turns, error, start, stop, clearTurns };
+};
@@ -0,0 +1,129 @@
+import { useState, useCallback, useMemo, useRef } from 'react';
+import { Segment, EditOrigin, HistoryEntry, SegmentChange } from '../types';
+import { joinSource, joinTranslation } from '../utils/segments';
+
+interface UseSegmentStoreReturn {
+  segments: Segment[];
+  loadSegments: (segments: Segment[]) => void;
+  appendSegments: (segments: Segment[], origin?: EditOrigin) => void;
+  appendSegment: (segment: Segment, origin?: EditOrigin) => void;
+  updateSegment: (id: string, patch: Partial<Segment>, origin?: EditOrigin) => void;
+  clearSegments: (origin?: EditOrigin) => void;
+  undo: () => HistoryEntry | null;
+  redo: () => HistoryEntry | null;
+  nextUndo: HistoryEntry | null;
+  nextRedo: HistoryEntry | null;
+  sourceText: string;
+  translatedText: string;
+}
+
+const MAX_HISTORY = 200;
+// Keystrokes on the same line within this window undo as one step.
+export const COALESCE_MS = 1500;
+
+const withoutId = (list: Segment[], id: string) => list.filter(s => s.id !== id);
+
+const insertAt = (list: Segment[], index: number, segment: Segment) => {
+  const next = withoutId(list, segment.id);
+  next.splice(Math.min(index, next.length), 0, segment);
+  return next;
+};
+
+// Moves one change to its `before` (undo) or `after` (redo) state. Other segments
+// are left alone, so pipeline work on them survives an undo.
+const applyChange = (list: Segment[], change: SegmentChange, to: 'before' | 'after') => {
+  const target = change[to];
+  const from = to === 'before' ? change.after : change.before;
+  if (!target) return from ? withoutId(list, from.id) : list;
+  if (!from) return insertAt(list, change.index, target);
+  return list.map(s => s.id === target.id ? target : s);
+};
+
+// Segments are the single source of truth for both panes, so one history covers
+// source and target edits. Writes without an origin (status transitions, session
+// loads) are not recorded. The recognizer's pending buffer is not part of the
+// history: the refiner owns it and indexes into it by length.
+export const useSegmentStore = (): UseSegmentStoreReturn => {
+  const [segments, setSegments] = useState<Segment[]>([]);
+  // Mirrors state so consecutive writes in one tick build on each other.
+  const segmentsRef = useRef<Segment[]>([]);
+  const pastRef = useRef<HistoryEntry[]>([]);
+  const futureRef = useRef<HistoryEntry[]>([]);
+  const [nextUndo, setNextUndo] = useState<HistoryEntry | null>(null);
+  const [nextRedo, setNextRedo] = useState<HistoryEntry | null>(null);
+
+  const publish = useCallback((next: Segment[]) => {
+    segmentsRef.current = next;
+    setSegments(next);
+    setNextUndo(pastRef.current[pastRef.current.length - 1] || null);
+    setNextRedo(futureRef.current[futureRef.current.length - 1] || null);
+  }, []);
+
+  const record = useCallback((origin: EditOrigin | undefined, changes: SegmentChange[]) => {
+    if (!origin || changes.length === 0) return;
+    const now = Date.now();
+    const last = pastRef.current[pastRef.current.length - 1];
+    const change = changes[0];
+    const coalesce = origin === 'user' && last?.origin === 'user' && now - last.at < COALESCE_MS
+      && changes.length === 1 && last.changes.length === 1
+      && change.before && last.changes[0].after?.id === change.before.id;
+    if (coalesce) {
+      pastRef.current[pastRef.current.length - 1] = { ...last, at: now, changes: [{ ...last.changes[0], after: change.after }] };
+    } else {
+      pastRef.current = [...pastRef.current, { origin, at: now, changes }].slice(-MAX_HISTORY);
+    }
+    futureRef.current = [];
+  }, []);
+
+  const loadSegments = useCallback((next: Segment[]) => {
+    pastRef.current = [];
+    futureRef.current = [];
+    publish(next);
+  }, [publish]);
+
+  const appendSegments = useCallback((added: Segment[], origin?: EditOrigin) => {
+    const prev = segmentsRef.current;
+    record(origin, added.map((segment, i) => ({ index: prev.length + i, before: null, after: segment })));
+    publish([...prev, ...added]);
+  }, [publish, record]);
+
+  const appendSegment = useCallback((segment: Segment, origin?: EditOrigin) => appendSegments([segment], origin), [appendSegments]);
+
+  const updateSegment = useCallback((id: string, patch: Partial<Segment>, origin?: EditOrigin) => {
+    const prev = segmentsRef.current;
+    const index = prev.findIndex(s => s.id === id);
+    if (index < 0) return;
+    const updated = { ...prev[index], ...patch };
+    record(origin, [{ index, before: prev[index], after: updated }]);
+    publish(prev.map(s => s.id === id ? updated : s));
+  }, [publish, record]);
+
+  // Recorded as successive removals from the front, so undo re-inserts in order.
+  const clearSegments = useCallback((origin?: EditOrigin) => {
+    record(origin, segmentsRef.current.map(segment => ({ index: 0, before: segment, after: null })));
+    publish([]);
+  }, [publish, record]);
+
+  const undo = useCallback(() => {
+    const entry = pastRef.current[pastRef.current.length - 1];
+    if (!entry) return null;
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [...futureRef.current, entry];
+    publish(entry.changes.reduceRight((list, change) => applyChange(list, change, 'before'), segmentsRef.current));
+    return entry;
+  }, [publish]);
+
+  const redo = useCallback(() => {
+    const entry = futureRef.current[futureRef.current.length - 1];
+    if (!entry) return null;
+    futureRef.current = futureRef.current.slice(0, -1);
+    pastRef.current = [...pastRef.current, entry];
+    publish(entry.changes.reduce((list, change) => applyChange(list, change, 'after'), segmentsRef.current));
+    return entry;
+  }, [publish]);
+
+  const sourceText = useMemo(() => joinSource(segments), [segments]);
+  const translatedText = useMemo(() => joinTranslation(segments), [segments]);
+
+  return { segments, loadSegments, appendSegments, appendSegment, updateSegment, clearSegments, undo, redo, nextUndo, nextRedo, sourceText, translatedText };
+};
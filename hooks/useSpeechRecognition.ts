@@ -1,6 +1,6 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { TranscriptionStatus, SpeechRecognition, SpeechRecognitionEvent, SpeechRecognitionErrorEvent } from '../types';
+import { TranscriptionStatus, SpeechRecognition, SpeechRecognitionEvent, SpeechRecognitionErrorEvent, TimedSpan } from '../types';
 
 interface UseSpeechRecognitionReturn {
   status: TranscriptionStatus;
@@ -14,6 +14,8 @@ interface UseSpeechRecognitionReturn {
   clearTranscript: () => void;
   setText: (value: string | ((prev: string) => string)) => void;
   isSupported: boolean;
+  getFragmentCount: () => number;
+  consumeFragments: (count: number) => TimedSpan | null;
 }
 
 const ERROR_MAP: Record<string, { msg: string; recovery: string }> = {
@@ -30,7 +32,9 @@ const ERROR_MAP: Record<string, { msg: string; recovery: string }> = {
 const MAX_CHARS_PER_FRAGMENT = 15; 
 const SILENCE_COMMIT_MS = 400; 
 
-export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
+// `clock` returns the session-relative offset in ms; fragments are stamped with it
+// alongside wall-clock time as they are finalized.
+export const useSpeechRecognition = (language: string = 'en-US', clock: () => number = () => 0): UseSpeechRecognitionReturn => {
   const [status, setStatus] = useState<TranscriptionStatus>(TranscriptionStatus.IDLE);
   const [text, setText] = useState<string>('');
   const [interimText, setInterimText] = useState<string>('');
@@ -40,12 +44,18 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
   const [velocity, setVelocity] = useState<number>(0);
   const velocityRef = useRef<number>(0);
   const lastLengthRef = useRef<number>(0);
+  // Counts every finalized character; `text` itself shrinks as the app commits it to segments.
+  const appendedRef = useRef<number>(0);
   
-  const language = 'en-US';
   const recognitionRef = useRef<SpeechRecognition | null>(null);
   const statusRef = useRef<TranscriptionStatus>(TranscriptionStatus.IDLE);
   const restartCount = useRef(0);
   const silenceTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const clockRef = useRef(clock);
+  clockRef.current = clock;
+  // Timing of every finalized fragment still sitting in `text`, oldest first.
+  const fragmentsRef = useRef<TimedSpan[]>([]);
+  const utteranceStartRef = useRef<{ at: number; offset: number } | null>(null);
 
   useEffect(() => {
     statusRef.current = status;
@@ -59,7 +69,7 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
     }
 
     const interval = setInterval(() => {
-        const currentLength = text.length;
+        const currentLength = appendedRef.current;
         const diff = Math.max(0, currentLength - lastLengthRef.current);
         velocityRef.current = diff;
         setVelocity(diff);
@@ -67,7 +77,7 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [status, text.length]);
+  }, [status]);
 
   const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
 
@@ -103,6 +113,9 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
 
         recognition.onresult = (event: SpeechRecognitionEvent) => {
             restartCount.current = 0; 
+            const now = Date.now();
+            const offset = clockRef.current();
+            if (!utteranceStartRef.current) utteranceStartRef.current = { at: now, offset };
             let finalChunk = '';
             let interimChunk = '';
 
@@ -112,6 +125,10 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
             }
 
             if (finalChunk) {
+                appendedRef.current += finalChunk.trim().length;
+                const start = utteranceStartRef.current;
+                fragmentsRef.current.push({ startedAt: start.at, endedAt: now, startOffsetMs: start.offset, endOffsetMs: offset });
+                utteranceStartRef.current = interimChunk ? { at: now, offset } : null;
                 setText(prev => {
                     let chunk = finalChunk.trim();
                     if (!chunk) return prev;
@@ -181,6 +198,14 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
     };
   }, []); 
 
+  // Locale changes apply on the next start; an active session restarts through onend.
+  useEffect(() => {
+    const recognition = recognitionRef.current;
+    if (!recognition || recognition.lang === language) return;
+    recognition.lang = language;
+    if (statusRef.current === TranscriptionStatus.RECORDING) recognition.stop();
+  }, [language]);
+
   const startRecording = useCallback(() => {
     setError(null);
     restartCount.current = 0;
@@ -192,7 +217,17 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
 
   const pauseRecording = useCallback(() => { setStatus(TranscriptionStatus.PAUSED); recognitionRef.current?.stop(); }, []);
   const stopRecording = useCallback(() => { setStatus(TranscriptionStatus.STOPPED); recognitionRef.current?.stop(); setInterimText(''); }, []);
-  const clearTranscript = useCallback(() => { setText(''); setInterimText(''); setError(null); lastLengthRef.current = 0; velocityRef.current = 0; }, []);
+  const clearTranscript = useCallback(() => { setText(''); setInterimText(''); setError(null); lastLengthRef.current = 0; appendedRef.current = 0; velocityRef.current = 0; fragmentsRef.current = []; utteranceStartRef.current = null; }, []);
+
+  const getFragmentCount = useCallback(() => fragmentsRef.current.length, []);
+
+  // Called when the app commits the oldest `count` fragments to a segment.
+  const consumeFragments = useCallback((count: number): TimedSpan | null => {
+    const taken = fragmentsRef.current.splice(0, count);
+    if (taken.length === 0) return null;
+    const last = taken[taken.length - 1];
+    return { startedAt: taken[0].startedAt, endedAt: last.endedAt, startOffsetMs: taken[0].startOffsetMs, endOffsetMs: last.endOffsetMs };
+  }, []);
 
-  return { status, text, interimText, error, velocity, startRecording, pauseRecording, stopRecording, clearTranscript, setText, isSupported };
+  return { status, text, interimText, error, velocity, startRecording, pauseRecording, stopRecording, clearTranscript, setText, isSupported, getFragmentCount, consumeFragments };
 };
@@ -0,0 +1,154 @@
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ReaderPreferences } from '../types';
+
+interface UseSpeechSynthesisReturn {
+  isSupported: boolean;
+  voices: SpeechSynthesisVoice[];
+  prefs: ReaderPreferences;
+  updatePrefs: (patch: Partial<ReaderPreferences>) => void;
+  currentLine: string | null;
+  queueLength: number;
+  isHeld: boolean;
+  skip: () => void;
+  replay: () => void;
+}
+
+const PREFS_KEY = 'scribe_reader_prefs_v1';
+const DUCK_VOLUME = 0.2;
+const DEFAULT_PREFS: ReaderPreferences = { voiceURI: '', rate: 1.1, pitch: 1, duckMode: 'pause' };
+
+const loadPrefs = (): ReaderPreferences => {
+  try { return { ...DEFAULT_PREFS, ...JSON.parse(localStorage.getItem(PREFS_KEY) || '{}') }; }
+  catch (e) { return DEFAULT_PREFS; }
+};
+
+const splitLines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+
+// Reads each newly appended line of `text` aloud. While the microphone is live the
+// reader either holds its queue or ducks its volume so it is not transcribed back.
+export const useSpeechSynthesis = (text: string, enabled: boolean, isMicActive: boolean, lang = 'vi-VN'): UseSpeechSynthesisReturn => {
+  const isSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+  const [allVoices, setAllVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [prefs, setPrefs] = useState<ReaderPreferences>(loadPrefs);
+  const [currentLine, setCurrentLine] = useState<string | null>(null);
+  const [queueLength, setQueueLength] = useState(0);
+
+  const queueRef = useRef<string[]>([]);
+  const currentRef = useRef<string | null>(null);
+  const lastSpokenRef = useRef<string | null>(null);
+  const prevTextRef = useRef(text);
+  const queuedLinesRef = useRef(splitLines(text).length);
+  const prefsRef = useRef(prefs);
+  const stateRef = useRef({ enabled, isMicActive, lang });
+  const heldRef = useRef(false);
+
+  const isHeld = isMicActive && prefs.duckMode === 'pause';
+  const langPrefix = lang.split('-')[0].toLowerCase();
+  const matching = allVoices.filter(v => v.lang.toLowerCase().startsWith(langPrefix));
+  const voices = matching.length > 0 ? matching : allVoices;
+
+  useEffect(() => { prefsRef.current = prefs; localStorage.setItem(PREFS_KEY, JSON.stringify(prefs)); }, [prefs]);
+
+  useEffect(() => {
+    if (!isSupported) return;
+    const load = () => setAllVoices(window.speechSynthesis.getVoices());
+    load();
+    window.speechSynthesis.addEventListener('voiceschanged', load);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', load);
+  }, [isSupported]);
+
+  const speakNext = useCallback(() => {
+    const { enabled, isMicActive, lang } = stateRef.current;
+    const p = prefsRef.current;
+    if (!isSupported || !enabled || currentRef.current) return;
+    if (isMicActive && p.duckMode === 'pause') return;
+
+    const line = queueRef.current.shift();
+    setQueueLength(queueRef.current.length);
+    if (!line) return;
+
+    const utterance = new SpeechSynthesisUtterance(line);
+    utterance.lang = lang;
+    const voice = window.speechSynthesis.getVoices().find(v => v.voiceURI === p.voiceURI)
+      || window.speechSynthesis.getVoices().find(v => v.lang.toLowerCase().startsWith(lang.split('-')[0].toLowerCase()));
+    if (voice) utterance.voice = voice;
+    utterance.rate = p.rate;
+    utterance.pitch = p.pitch;
+    utterance.volume = isMicActive ? DUCK_VOLUME : 1;
+
+    const finish = () => {
+      if (currentRef.current !== line) return;
+      currentRef.current = null;
+      setCurrentLine(null);
+      speakNext();
+    };
+    utterance.onend = finish;
+    utterance.onerror = finish;
+
+    currentRef.current = line;
+    lastSpokenRef.current = line;
+    setCurrentLine(line);
+    window.speechSynthesis.speak(utterance);
+  }, [isSupported]);
+
+  // Clearing currentRef first makes the cancelled utterance's onend a no-op.
+  const interrupt = useCallback((requeueCurrent: boolean) => {
+    const line = currentRef.current;
+    if (requeueCurrent && line) queueRef.current.unshift(line);
+    currentRef.current = null;
+    setCurrentLine(null);
+    window.speechSynthesis.cancel();
+    speakNext();
+  }, [speakNext]);
+
+  useEffect(() => {
+    const wasHeld = heldRef.current;
+    heldRef.current = isHeld;
+    stateRef.current = { enabled, isMicActive, lang };
+    if (!isSupported) return;
+    if (!enabled) {
+      queueRef.current = [];
+      interrupt(false);
+      return;
+    }
+    if (isHeld && !wasHeld && currentRef.current) interrupt(true);
+    else speakNext();
+  }, [enabled, isMicActive, isHeld, lang, isSupported, interrupt, speakNext]);
+
+  useEffect(() => {
+    const prev = prevTextRef.current;
+    prevTextRef.current = text;
+    const lines = splitLines(text);
+
+    // Anything other than an append (session switch, clear, manual edit) resets the
+    // read position instead of replaying the whole archive.
+    if (!enabled || !text.startsWith(prev)) {
+      queuedLinesRef.current = lines.length;
+      return;
+    }
+    const fresh = lines.slice(queuedLinesRef.current);
+    queuedLinesRef.current = lines.length;
+    if (fresh.length === 0) return;
+    queueRef.current.push(...fresh);
+    setQueueLength(queueRef.current.length);
+    speakNext();
+  }, [text, enabled, speakNext]);
+
+  useEffect(() => () => { if (isSupported) window.speechSynthesis.cancel(); }, [isSupported]);
+
+  const updatePrefs = useCallback((patch: Partial<ReaderPreferences>) => setPrefs(prev => ({ ...prev, ...patch })), []);
+
+  const skip = useCallback(() => { if (currentRef.current) interrupt(false); }, [interrupt]);
+
+  const replay = useCallback(() => {
+    if (currentRef.current) { interrupt(true); return; }
+    if (lastSpokenRef.current) {
+      queueRef.current.unshift(lastSpokenRef.current);
+      setQueueLength(queueRef.current.length);
+      speakNext();
+    }
+  }, [interrupt, speakNext]);
+
+  return { isSupported, voices, prefs, updatePrefs, currentLine, queueLength, isHeld, skip, replay };
+};
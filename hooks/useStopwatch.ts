@@ -1,18 +1,32 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { formatDuration } from '../utils/time';
 
 export const useStopwatch = (isRunning: boolean) => {
   const [elapsedTime, setElapsedTime] = useState(0);
   const intervalRef = useRef<number | null>(null);
+  // Millisecond bookkeeping so transcript fragments can be stamped between ticks.
+  const accumulatedMsRef = useRef(0);
+  const runStartedAtRef = useRef<number | null>(null);
+
+  const getElapsedMs = useCallback(() => {
+    const running = runStartedAtRef.current !== null ? Date.now() - runStartedAtRef.current : 0;
+    return accumulatedMsRef.current + running;
+  }, []);
 
   useEffect(() => {
     if (isRunning) {
+      runStartedAtRef.current = Date.now();
       intervalRef.current = window.setInterval(() => {
-        setElapsedTime((prev) => prev + 1);
+        setElapsedTime(Math.floor(getElapsedMs() / 1000));
       }, 1000);
     } else {
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
       }
+      if (runStartedAtRef.current !== null) {
+        accumulatedMsRef.current += Date.now() - runStartedAtRef.current;
+        runStartedAtRef.current = null;
+      }
     }
 
     return () => {
@@ -20,16 +34,15 @@ export const useStopwatch = (isRunning: boolean) => {
         clearInterval(intervalRef.current);
       }
     };
-  }, [isRunning]);
+  }, [isRunning, getElapsedMs]);
 
-  const resetTimer = () => setElapsedTime(0);
-
-  const formatTime = (seconds: number) => {
-    const h = Math.floor(seconds / 3600);
-    const m = Math.floor((seconds % 3600) / 60);
-    const s = seconds % 60;
-    return `${h > 0 ? h + ':' : ''}${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  const resetTimer = (seconds: number = 0) => {
+    accumulatedMsRef.current = seconds * 1000;
+    if (runStartedAtRef.current !== null) runStartedAtRef.current = Date.now();
+    setElapsedTime(seconds);
   };
 
-  return { elapsedTime, formatTime, resetTimer };
-};
\ No newline at end of file
+  const formatTime = (seconds: number) => formatDuration(seconds);
+
+  return { elapsedTime, formatTime, resetTimer, getElapsedMs };
+};
@@ -0,0 +1,30 @@
+
+import { LanguageCode, LanguagePair } from './types';
+
+interface LanguageInfo {
+  name: string;       // English name, used inside prompts
+  label: string;      // Short code shown in the UI
+  locale: string;     // BCP-47 tag for speech recognition and synthesis
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  en: { name: 'English', label: 'EN', locale: 'en-US' },
+  vi: { name: 'Vietnamese', label: 'VI', locale: 'vi-VN' },
+  ja: { name: 'Japanese', label: 'JA', locale: 'ja-JP' },
+  ko: { name: 'Korean', label: 'KO', locale: 'ko-KR' },
+  zh: { name: 'Chinese (Mandarin)', label: 'ZH', locale: 'zh-CN' },
+};
+
+export const DEFAULT_LANGUAGE_PAIR: LanguagePair = { source: 'en', target: 'vi' };
+
+export const LANGUAGE_PAIRS: LanguagePair[] = [
+  DEFAULT_LANGUAGE_PAIR,
+  { source: 'ja', target: 'vi' },
+  { source: 'ko', target: 'vi' },
+  { source: 'zh', target: 'vi' },
+  { source: 'vi', target: 'en' },
+];
+
+export const pairKey = (pair: LanguagePair) => `${pair.source}-${pair.target}`;
+
+export const pairLabel = (pair: LanguagePair) => `${LANGUAGES[pair.source].label} -> ${LANGUAGES[pair.target].label}`;
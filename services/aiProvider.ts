@@ -0,0 +1,96 @@
+
+import { AISettings, AIProviderKind, LanguagePair, GlossaryTerm } from '../types';
+import { createGeminiProvider } from './providers/gemini';
+import { createOpenAICompatibleProvider } from './providers/openaiCompatible';
+import { createMockProvider } from './providers/mock';
+
+export interface PromptContext {
+  pair: LanguagePair;
+  contextDesc: string;
+  reference: string; // Passages retrieved for the text being processed, not the whole document
+  glossary: GlossaryTerm[]; // Only the terms found in the text being processed
+}
+
+export interface TranscribeRequest {
+  audio: Blob;
+  pair: LanguagePair;
+  contextDesc: string;
+  previousText?: string; // When the audio is one chunk of a longer recording: how the previous chunk ended
+  knownSpeakers?: string[]; // Speaker labels already given out in earlier chunks of the same recording
+  terms?: string[]; // Names and jargon to spell as written, from the glossary
+}
+
+// One speaker-attributed stretch of an uploaded recording; times are relative to its start.
+export interface DiarizedTurn {
+  speaker: string;
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
+// Every AI call in the app goes through this interface; implementations only
+// differ in transport, never in prompt wording.
+export interface AIProvider {
+  kind: AIProviderKind;
+  model: string;
+  refine: (chunk: string, ctx: PromptContext) => Promise<string>;
+  translate: (chunk: string, ctx: PromptContext) => Promise<string>;
+  // Resolves with the full text once the stream ends; rejects with an AbortError when cancelled.
+  translateStream: (chunk: string, ctx: PromptContext, onDelta: (partial: string) => void, signal: AbortSignal) => Promise<string>;
+  transcribe: (req: TranscribeRequest) => Promise<string>;
+  diarize: (req: TranscribeRequest) => Promise<DiarizedTurn[]>;
+  summarize: (transcript: string, ctx: PromptContext) => Promise<string>;
+  // Reads the text printed on a page image; needs a multimodal model.
+  ocr: (image: Blob) => Promise<string>;
+}
+
+const SETTINGS_KEY = 'scribe_ai_settings_v1';
+
+export const PROVIDER_MODELS: Record<AIProviderKind, string[]> = {
+  gemini: ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'],
+  openai: ['llama3.1', 'qwen2.5', 'gpt-4o-mini'],
+  mock: ['mock-echo'],
+};
+
+export const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  model: PROVIDER_MODELS.gemini[0],
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  transcriptionModel: DEFAULT_TRANSCRIPTION_MODEL,
+  refineTranscript: true,
+  ocrScannedPages: false,
+};
+
+export const loadAISettings = (): AISettings => {
+  try { return { ...DEFAULT_AI_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') }; }
+  catch (e) { return DEFAULT_AI_SETTINGS; }
+};
+
+export const saveAISettings = (settings: AISettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+export const isAbortError = (e: any) => e?.name === 'AbortError' || e?.name === 'APIUserAbortError';
+
+export async function retryWithBackoff<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
+  try { return await fn(); } catch (error: any) {
+    const isQuota = error?.status === 429 || error?.message?.includes('429');
+    if (isQuota && retries > 0) {
+      await new Promise(res => setTimeout(res, delay));
+      return retryWithBackoff(fn, retries - 1, delay * 2);
+    }
+    throw error;
+  }
+}
+
+export const createProvider = (settings: AISettings): AIProvider | null => {
+  switch (settings.provider) {
+    case 'gemini':
+      return process.env.API_KEY ? createGeminiProvider(process.env.API_KEY, settings.model) : null;
+    case 'openai':
+      return settings.baseUrl ? createOpenAICompatibleProvider(settings.baseUrl, settings.model, settings.apiKey, settings.transcriptionModel) : null;
+    case 'mock':
+      return createMockProvider();
+  }
+};
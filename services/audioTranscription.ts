@@ -0,0 +1,165 @@
+
+// Uploaded recordings are transcribed in bounded chunks, each cut at the quietest
+// moment near its boundary, so no request carries more than a couple of minutes of
+// audio and a failure costs one chunk rather than the whole file.
+
+import { LanguagePair, TranscriptionChunk, TranscriptionJob } from '../types';
+import { AIProvider, DiarizedTurn, retryWithBackoff } from './aiProvider';
+import { decodeToMono, encodeWav } from '../utils/audio';
+
+export const TRANSCRIBE_SAMPLE_RATE = 16000;
+const MIN_CHUNK_MS = 45_000;
+const MAX_CHUNK_MS = 120_000;
+const FRAME_MS = 50;
+// Energy is averaged over this many frames, so a cut lands in a pause rather than
+// in the gap between two syllables.
+const QUIET_WINDOW_FRAMES = 6;
+// Transcripts are split into lines of about this size, roughly a spoken sentence or two.
+const MAX_LINE_CHARS = 240;
+// The end of the previous chunk's text is sent along for continuity.
+const CARRY_CHARS = 300;
+
+export interface DecodedAudio {
+  samples: Float32Array;
+  sampleRate: number;
+  durationMs: number;
+}
+
+// A line of transcript placed on the session timeline.
+export interface TimedLine {
+  text: string;
+  startMs: number;
+  endMs: number;
+  speaker?: string; // Label from the provider when the upload was diarized
+}
+
+export const isVideoFile = (file: Blob) => file.type.startsWith('video/');
+
+// Video containers (MP4, WebM, MOV) go through the same decoder: the browser demuxes
+// the file and decodes its first audio track, so no separate extraction step is needed.
+export const decodeUpload = async (file: File): Promise<DecodedAudio> => {
+  let samples: Float32Array;
+  try {
+    samples = await decodeToMono(file, TRANSCRIBE_SAMPLE_RATE);
+  } catch (e) {
+    console.error("Audio decode error", e);
+    throw new Error(isVideoFile(file)
+      ? `${file.name} has no audio track this browser can decode.`
+      : `${file.name} could not be decoded as audio.`);
+  }
+  return { samples, sampleRate: TRANSCRIBE_SAMPLE_RATE, durationMs: samples.length / TRANSCRIBE_SAMPLE_RATE * 1000 };
+};
+
+// Same session, same file: uploading it again finds the unfinished job.
+export const transcriptionJobId = (sessionId: string, file: File) => `${sessionId}:${file.name}:${file.size}:${file.lastModified}`;
+
+// Each chunk is MIN_CHUNK_MS to MAX_CHUNK_MS long and ends at the quietest stretch
+// of that window; whatever is left once it fits in MAX_CHUNK_MS is the last chunk.
+export const planChunks = ({ samples, sampleRate, durationMs }: DecodedAudio): TranscriptionChunk[] => {
+  const frameLength = Math.max(1, Math.round(sampleRate * FRAME_MS / 1000));
+  const frameCount = Math.ceil(samples.length / frameLength);
+  const prefix = new Float64Array(frameCount + 1);
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    const end = Math.min(samples.length, (f + 1) * frameLength);
+    for (let i = f * frameLength; i < end; i++) sum += samples[i] * samples[i];
+    prefix[f + 1] = prefix[f] + sum / (end - f * frameLength);
+  }
+  const half = Math.floor(QUIET_WINDOW_FRAMES / 2);
+  const loudness = (f: number) => {
+    const from = Math.max(0, f - half);
+    const to = Math.min(frameCount, f + half);
+    return (prefix[to] - prefix[from]) / Math.max(1, to - from);
+  };
+
+  const minFrames = MIN_CHUNK_MS / FRAME_MS;
+  const maxFrames = MAX_CHUNK_MS / FRAME_MS;
+  const cuts: number[] = [];
+  let start = 0;
+  while (frameCount - start > maxFrames) {
+    let best = start + minFrames;
+    for (let f = best + 1; f <= start + maxFrames; f++) if (loudness(f) < loudness(best)) best = f;
+    cuts.push(best);
+    start = best;
+  }
+  const edges = [0, ...cuts.map(f => f * FRAME_MS), durationMs];
+  return edges.slice(1).map((endMs, index) => ({ index, startMs: edges[index], endMs, status: 'pending' }));
+};
+
+export const createTranscriptionJob = (id: string, sessionId: string, file: File, baseOffsetMs: number, diarize: boolean, chunks: TranscriptionChunk[]): TranscriptionJob => ({
+  id,
+  sessionId,
+  fileName: file.name,
+  fileSize: file.size,
+  baseOffsetMs,
+  diarize,
+  chunks,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+export const chunkAudio = (audio: DecodedAudio, chunk: TranscriptionChunk, fileName: string): File => {
+  const from = Math.floor(chunk.startMs / 1000 * audio.sampleRate);
+  const to = Math.min(audio.samples.length, Math.ceil(chunk.endMs / 1000 * audio.sampleRate));
+  const name = `${fileName.replace(/\.[^.]+$/, '')}-part${chunk.index + 1}.wav`;
+  return new File([encodeWav(audio.samples.subarray(from, to), audio.sampleRate)], name, { type: 'audio/wav' });
+};
+
+// A chunk's transcript carries no timing, so its lines share the chunk's span in
+// proportion to their length. Paragraph breaks from the provider always start a line.
+export const spreadText = (text: string, startMs: number, endMs: number): TimedLine[] => {
+  const lines: string[] = [];
+  text.split(/\n+/).map(p => p.trim()).filter(Boolean).forEach(paragraph => {
+    let current = '';
+    paragraph.split(/(?<=[.!?])\s+|(?<=[。！？])\s*/).forEach(sentence => {
+      if (current && current.length + sentence.length > MAX_LINE_CHARS) { lines.push(current); current = ''; }
+      current = current ? `${current}${/[。！？]$/.test(current) ? '' : ' '}${sentence}` : sentence;
+    });
+    if (current) lines.push(current);
+  });
+  const total = lines.reduce((sum, line) => sum + line.length, 0) || 1;
+  let at = startMs;
+  return lines.map(line => {
+    const span = { text: line, startMs: Math.round(at), endMs: Math.round(at + (endMs - startMs) * line.length / total) };
+    at += (endMs - startMs) * line.length / total;
+    return span;
+  });
+};
+
+export interface ChunkRequest {
+  pair: LanguagePair;
+  contextDesc: string;
+  diarize: boolean;
+  previousText?: string;
+  knownSpeakers?: string[];
+  terms?: string[];
+  baseOffsetMs: number; // Session offset of the start of the file
+}
+
+// Transcribes one chunk and places its lines on the session timeline. Speakers are
+// labelled per chunk; the model is given the earlier labels to reuse, but a server that
+// only diarizes what it hears (WhisperX and similar) may still number them afresh,
+// and then "Speaker 1" in two chunks need not be the same person.
+export const transcribeChunk = async (provider: AIProvider, audio: DecodedAudio, fileName: string, chunk: TranscriptionChunk, { pair, contextDesc, diarize, previousText, knownSpeakers, terms, baseOffsetMs }: ChunkRequest): Promise<TimedLine[]> => {
+  const req = { audio: chunkAudio(audio, chunk, fileName), pair, contextDesc, previousText, knownSpeakers, terms };
+  const start = baseOffsetMs + chunk.startMs;
+  const end = baseOffsetMs + chunk.endMs;
+  if (!diarize) return spreadText(await retryWithBackoff<string>(() => provider.transcribe(req)), start, end);
+  return (await retryWithBackoff<DiarizedTurn[]>(() => provider.diarize(req))).map(turn => ({
+    text: turn.text,
+    speaker: turn.speaker,
+    startMs: start + turn.startMs,
+    // Providers that return untimed text report zero-length turns.
+    endMs: turn.endMs > turn.startMs ? start + turn.endMs : end,
+  }));
+};
+
+// Labels seen so far in a recording, in order of first appearance.
+export const carrySpeakers = (known: string[] = [], lines: TimedLine[]) =>
+  lines.reduce((labels, l) => l.speaker && !labels.includes(l.speaker) ? [...labels, l.speaker] : labels, known);
+
+export const carryText = (lines: TimedLine[]) => {
+  const text = lines.map(l => l.text).join(' ');
+  // Cut at a word boundary when the text is longer than the carry.
+  return text.length <= CARRY_CHARS ? text : text.slice(-CARRY_CHARS).replace(/^\S*\s/, '');
+};
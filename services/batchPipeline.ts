@@ -0,0 +1,154 @@
+
+// Headless version of the live pipeline for uploaded files: transcribe in chunks,
+// refine, then translate, writing each file into a Vault session of its own.
+// Nothing here touches the active session.
+
+import { LanguagePair, GlossaryTerm, ReferenceDocument, Segment, SessionData, SessionMetadata, Speaker } from '../types';
+import { AIProvider, PromptContext, retryWithBackoff } from './aiProvider';
+import { matchGlossary } from './glossary';
+import { buildReferenceIndex, searchReference, formatPassages } from './referenceIndex';
+import { decodeUpload, planChunks, transcribeChunk, carryText, carrySpeakers } from './audioTranscription';
+import { saveSession, saveAudioChunk } from './sessionStore';
+import { createSegment, joinSource, joinTranslation, segmentSource } from '../utils/segments';
+import { defaultSpeakers, resolveSpeakerLabels } from '../utils/speakers';
+import { enabledReferences } from '../utils/references';
+import { generateId } from '../utils/id';
+
+export type BatchStage = 'queued' | 'decoding' | 'transcribing' | 'refining' | 'translating' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchJob {
+  id: string;
+  file: File;
+  stage: BatchStage;
+  done: number;  // Units finished in the current stage: chunks or lines
+  total: number;
+  sessionId?: string; // Set once the session has been created
+  error?: string;
+}
+
+// Captured when the files are queued, so later edits in the active session do not
+// change a batch that is already waiting.
+export interface BatchSettings {
+  pair: LanguagePair;
+  contextDesc: string;
+  references: ReferenceDocument[];
+  glossary: GlossaryTerm[];
+  diarize: boolean;
+  refine: boolean;
+  keepAudio: boolean; // Store the file with the session for playback
+}
+
+export interface BatchCallbacks {
+  onProgress: (stage: BatchStage, done: number, total: number) => void;
+  onSession: (meta: SessionMetadata) => void; // After every save of the file's session
+}
+
+export const createBatchJob = (file: File): BatchJob => ({ id: generateId(), file, stage: 'queued', done: 0, total: 0 });
+
+export const sessionNameFor = (file: File) => file.name.replace(/\.[^.]+$/, '') || file.name;
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw new DOMException('Batch job cancelled', 'AbortError');
+};
+
+// Runs one file through the pipeline. The session is saved after each stage and
+// once more on failure or cancel, so whatever was finished is kept.
+export const processBatchFile = async (
+  job: BatchJob,
+  provider: AIProvider,
+  settings: BatchSettings,
+  { onProgress, onSession }: BatchCallbacks,
+  signal: AbortSignal
+): Promise<string> => {
+  const { file } = job;
+  const index = buildReferenceIndex(enabledReferences(settings.references));
+  const contextFor = (text: string): PromptContext => ({
+    pair: settings.pair,
+    contextDesc: settings.contextDesc,
+    reference: formatPassages(searchReference(index, text)),
+    glossary: matchGlossary(settings.glossary, text),
+  });
+  onProgress('decoding', 0, 1);
+  const audio = await decodeUpload(file);
+  throwIfAborted(signal);
+
+  let meta: SessionMetadata = {
+    id: generateId(),
+    name: sessionNameFor(file),
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    durationSeconds: Math.round(audio.durationMs / 1000),
+    wordCount: 0,
+  };
+  let segments: Segment[] = [];
+  let speakers: Speaker[] = defaultSpeakers();
+  const save = async () => {
+    const data: SessionData = {
+      text: joinSource(segments),
+      translatedText: joinTranslation(segments),
+      contextDesc: settings.contextDesc,
+      references: settings.references,
+      languagePair: settings.pair,
+      segments,
+      pendingText: '',
+      speakers,
+    };
+    meta = await saveSession({ ...meta, updatedAt: Date.now(), wordCount: data.text.split(/\s+/).filter(Boolean).length }, data);
+    onSession(meta);
+  };
+  await save();
+  if (settings.keepAudio) {
+    await saveAudioChunk({
+      id: generateId(), sessionId: meta.id, takeId: generateId(), seq: 0,
+      startOffsetMs: 0, endOffsetMs: audio.durationMs,
+      mimeType: file.type || 'application/octet-stream', bytes: file.size, blob: file,
+    });
+  }
+
+  try {
+    const chunks = planChunks(audio);
+    let previousText = '';
+    let knownSpeakers: string[] = [];
+    for (const chunk of chunks) {
+      onProgress('transcribing', chunk.index, chunks.length);
+      const lines = await transcribeChunk(provider, audio, file.name, chunk, {
+        pair: settings.pair, contextDesc: settings.contextDesc, terms: settings.glossary.map(t => t.source), diarize: settings.diarize, previousText, knownSpeakers, baseOffsetMs: 0,
+      });
+      throwIfAborted(signal);
+      const resolved = resolveSpeakerLabels(speakers, lines.filter(l => l.speaker).map(l => l.speaker!));
+      speakers = resolved.speakers;
+      const now = Date.now();
+      segments = [...segments, ...lines.map(l => createSegment(l.text, '', {
+        startedAt: now, endedAt: now, startOffsetMs: l.startMs, endOffsetMs: l.endMs,
+      }, 'raw', l.speaker ? resolved.idFor(l.speaker) : undefined))];
+      previousText = carryText(lines) || previousText;
+      knownSpeakers = carrySpeakers(knownSpeakers, lines);
+    }
+    await save();
+
+    if (settings.refine) {
+      for (let i = 0; i < segments.length; i++) {
+        onProgress('refining', i, segments.length);
+        const raw = segments[i].raw;
+        const refined = await retryWithBackoff<string>(() => provider.refine(raw, contextFor(raw)));
+        throwIfAborted(signal);
+        if (refined) segments[i] = { ...segments[i], refined, refinedBy: 'refiner', status: 'refined' };
+      }
+      await save();
+    }
+
+    for (let i = 0; i < segments.length; i++) {
+      onProgress('translating', i, segments.length);
+      const source = segmentSource(segments[i]);
+      const translation = await retryWithBackoff<string>(() => provider.translate(source, contextFor(source)));
+      throwIfAborted(signal);
+      segments[i] = { ...segments[i], translation, status: 'translated' };
+    }
+    await save();
+  } catch (e) {
+    await save().catch(err => console.error("Batch save error", err));
+    throw e;
+  }
+  onProgress('done', segments.length, segments.length);
+  return meta.id;
+};
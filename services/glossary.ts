@@ -0,0 +1,150 @@
+
+import { GlossaryTerm } from '../types';
+import { generateId } from '../utils/id';
+
+// Shared by every session, like the AI settings.
+const GLOSSARY_KEY = 'scribe_glossary_v1';
+
+// Upper bound on terms injected into a single prompt.
+const MAX_PROMPT_TERMS = 40;
+
+export const loadGlossary = (): GlossaryTerm[] => {
+  try { return JSON.parse(localStorage.getItem(GLOSSARY_KEY) || '[]'); }
+  catch (e) { return []; }
+};
+
+export const saveGlossary = (terms: GlossaryTerm[]) => localStorage.setItem(GLOSSARY_KEY, JSON.stringify(terms));
+
+export const createTerm = (source = '', target = ''): GlossaryTerm => ({
+  id: generateId(),
+  source,
+  target,
+  note: '',
+  caseSensitive: false,
+  doNotTranslate: false,
+});
+
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match, so "API" does not fire inside "rapid". Scripts written without
+// spaces have no word boundaries and match anywhere.
+const termPattern = (term: GlossaryTerm) => {
+  const body = escapeRegExp(term.source.trim()).replace(/\s+/g, '\\s+');
+  const bounded = CJK.test(term.source) ? body : `(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`;
+  return new RegExp(bounded, term.caseSensitive ? 'u' : 'iu');
+};
+
+export const termsIn = (terms: GlossaryTerm[], text: string): GlossaryTerm[] =>
+  text.trim() ? terms.filter(t => t.source.trim() && termPattern(t).test(text)) : [];
+
+// Only the terms that occur in `text` are sent with a prompt; longer terms win
+// when the cap is reached, since they are the most specific.
+export const matchGlossary = (terms: GlossaryTerm[], text: string): GlossaryTerm[] =>
+  termsIn(terms, text).sort((a, b) => b.source.length - a.source.length).slice(0, MAX_PROMPT_TERMS);
+
+// Replaces matched source terms in `text`; used by the offline mock provider.
+export const applyGlossary = (terms: GlossaryTerm[], text: string) => terms.reduce((out, t) => {
+  const pattern = termPattern(t);
+  return out.replace(new RegExp(pattern.source, pattern.flags + 'g'), () => t.doNotTranslate ? t.source : t.target || t.source);
+}, text);
+
+const TRUE_VALUES = new Set(['1', 'true', 'yes', 'y', 'x']);
+
+const COLUMN_ALIASES: Record<'source' | 'target' | 'note' | 'caseSensitive' | 'doNotTranslate', string[]> = {
+  source: ['source', 'term', 'original', 'from'],
+  target: ['target', 'translation', 'to'],
+  note: ['note', 'notes', 'comment', 'description'],
+  caseSensitive: ['case', 'case sensitive', 'case-sensitive', 'casesensitive'],
+  doNotTranslate: ['dnt', 'do not translate', 'do-not-translate', 'donottranslate', 'keep'],
+};
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes and CRLF line endings.
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') quoted = true;
+    else if (ch === delimiter) { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else field += ch;
+  }
+  if (field || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const columnsOf = (header: string[]) => {
+  const cells = header.map(cell => cell.trim().toLowerCase());
+  const columnOf = (key: keyof typeof COLUMN_ALIASES) => cells.findIndex(cell => COLUMN_ALIASES[key].includes(cell));
+  return { source: columnOf('source'), target: columnOf('target'), note: columnOf('note'), caseSensitive: columnOf('caseSensitive'), doNotTranslate: columnOf('doNotTranslate') };
+};
+
+const termsFromRows = (rows: string[][], columns: ReturnType<typeof columnsOf>) => {
+  const cell = (row: string[], index: number) => index >= 0 ? (row[index] || '').trim() : '';
+  return rows
+    .map(row => ({
+      ...createTerm(cell(row, columns.source), cell(row, columns.target)),
+      note: cell(row, columns.note),
+      caseSensitive: TRUE_VALUES.has(cell(row, columns.caseSensitive).toLowerCase()),
+      doNotTranslate: TRUE_VALUES.has(cell(row, columns.doNotTranslate).toLowerCase()),
+    }))
+    .filter(t => t.source);
+};
+
+// Accepts CSV, semicolon CSV (European Excel) and TSV (Excel copy/paste).
+export const readTable = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = ['\t', ';', ','].find(d => firstLine.includes(d)) || ',';
+  return parseDelimited(text.replace(/^\ufeff/, ''), delimiter);
+};
+
+// A header row is optional; without one the columns are source, target, note.
+export const parseGlossaryTable = (text: string): GlossaryTerm[] => {
+  const rows = readTable(text);
+  if (rows.length === 0) throw new Error('The file has no glossary rows.');
+
+  const header = columnsOf(rows[0]);
+  const hasHeader = header.source >= 0;
+  const terms = hasHeader
+    ? termsFromRows(rows.slice(1), header)
+    : termsFromRows(rows, { source: 0, target: 1, note: 2, caseSensitive: -1, doNotTranslate: -1 });
+  if (terms.length === 0) throw new Error('No terms found. Put the source term in the first column or under a "source" header.');
+  return terms;
+};
+
+// Spreadsheets attached as reference material are only treated as a glossary when
+// the header names both a source and a target column; other tables stay plain text.
+export const detectGlossary = (rows: string[][]): GlossaryTerm[] => {
+  const header = columnsOf(rows[0] || []);
+  return header.source >= 0 && header.target >= 0 ? termsFromRows(rows.slice(1), header) : [];
+};
+
+const csvCell = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const serializeGlossaryCsv = (terms: GlossaryTerm[]) => [
+  'source,target,note,case sensitive,do not translate',
+  ...terms.map(t => [t.source, t.target, t.note, t.caseSensitive ? 'yes' : '', t.doNotTranslate ? 'yes' : ''].map(csvCell).join(',')),
+].join('\n') + '\n';
+
+// Imported rows update existing terms with the same source text instead of duplicating them.
+export const mergeGlossary = (existing: GlossaryTerm[], incoming: GlossaryTerm[]) => {
+  const keyOf = (t: GlossaryTerm) => t.source.trim().toLowerCase();
+  const byKey = new Map(existing.map(t => [keyOf(t), t]));
+  let added = 0;
+  let updated = 0;
+  incoming.forEach(term => {
+    const current = byKey.get(keyOf(term));
+    if (current) { byKey.set(keyOf(term), { ...term, id: current.id }); updated++; }
+    else { byKey.set(keyOf(term), term); added++; }
+  });
+  return { terms: Array.from(byKey.values()), added, updated };
+};
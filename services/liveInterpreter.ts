@@ -0,0 +1,126 @@
+
+import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { LanguagePair, GlossaryTerm } from '../types';
+import { LANGUAGES } from '../languages';
+import { formatGlossary } from './prompts';
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+export const LIVE_INPUT_SAMPLE_RATE = 16000;
+export const LIVE_OUTPUT_SAMPLE_RATE = 24000;
+
+export interface LiveTransportHandlers {
+  onInputTranscript: (text: string) => void;
+  onOutputTranscript: (text: string) => void;
+  onAudio: (base64Pcm: string) => void;
+  onTurnComplete: () => void;
+  onInterrupted: () => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+export interface LiveTransportSession {
+  sendAudio: (base64Pcm: string) => void;
+  close: () => void;
+}
+
+// The hook only ever talks to this interface, so the Gemini socket can be swapped
+// for a local mock server that replays scripted turns.
+export interface LiveTransport {
+  connect: (systemInstruction: string, handlers: LiveTransportHandlers) => Promise<LiveTransportSession>;
+}
+
+type LiveServerPayload = Pick<LiveServerMessage, 'serverContent'>;
+
+const dispatchServerMessage = (msg: LiveServerPayload, handlers: LiveTransportHandlers) => {
+  const content = msg.serverContent;
+  if (!content) return;
+  if (content.interrupted) handlers.onInterrupted();
+  if (content.inputTranscription?.text) handlers.onInputTranscript(content.inputTranscription.text);
+  if (content.outputTranscription?.text) handlers.onOutputTranscript(content.outputTranscription.text);
+  content.modelTurn?.parts?.forEach(part => {
+    if (part.inlineData?.data) handlers.onAudio(part.inlineData.data);
+  });
+  if (content.turnComplete) handlers.onTurnComplete();
+};
+
+// Live audio has no text to match against before it is spoken, so the whole
+// glossary is sent up front, capped to keep the session instruction small.
+// `reference` is a handful of passages chosen by the caller.
+const MAX_LIVE_TERMS = 150;
+
+export const buildLiveInstruction = (pair: LanguagePair, contextDesc: string, reference: string, glossary: GlossaryTerm[]) => {
+  const terms = formatGlossary(glossary.slice(0, MAX_LIVE_TERMS), 'translation');
+  return `Expert Professional Simultaneous Interpreter (${LANGUAGES[pair.source].label} -> ${LANGUAGES[pair.target].label}).
+   CONTEXT: ${contextDesc}.${reference ? `
+   REFERENCE PASSAGES:
+${reference}` : ''}${terms ? `
+   GLOSSARY (mandatory renderings):
+${terms}` : ''}
+
+   RULES:
+   1. Listen to the ${LANGUAGES[pair.source].name} speaker and speak ONLY the ${LANGUAGES[pair.target].name} interpretation.
+   2. Never answer questions or add commentary; you are a voice relay, not a participant.
+   3. Render GLOSSARY terms exactly as listed; use the REFERENCE PASSAGES for other specific terms and project names.
+   4. Keep pace with the speaker: short, natural sentences.`;
+};
+
+export const createGeminiLiveTransport = (apiKey: string): LiveTransport => ({
+  connect: async (systemInstruction, handlers) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const session = await ai.live.connect({
+      model: LIVE_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction,
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+      },
+      callbacks: {
+        onmessage: (msg) => dispatchServerMessage(msg, handlers),
+        onerror: (e) => handlers.onError(e.message || 'Live connection error.'),
+        onclose: () => handlers.onClose(),
+      },
+    });
+    return {
+      sendAudio: (data) => session.sendRealtimeInput({ audio: { data, mimeType: `audio/pcm;rate=${LIVE_INPUT_SAMPLE_RATE}` } }),
+      close: () => session.close(),
+    };
+  },
+});
+
+// Minimal JSON-over-WebSocket protocol mirroring the Gemini Live wire format:
+// the client sends `setup` then `realtimeInput` frames, the server replies with
+// `serverContent` frames. Used against a local mock server in tests.
+export const createWebSocketLiveTransport = (url: string): LiveTransport => ({
+  connect: (systemInstruction, handlers) => new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    let opened = false;
+
+    socket.onopen = () => {
+      opened = true;
+      socket.send(JSON.stringify({ setup: { systemInstruction } }));
+      resolve({
+        sendAudio: (data) => {
+          if (socket.readyState !== WebSocket.OPEN) return;
+          socket.send(JSON.stringify({ realtimeInput: { audio: { data, mimeType: `audio/pcm;rate=${LIVE_INPUT_SAMPLE_RATE}` } } }));
+        },
+        close: () => socket.close(),
+      });
+    };
+    socket.onmessage = (ev) => {
+      try { dispatchServerMessage(JSON.parse(ev.data as string), handlers); }
+      catch (e) { console.error("Live mock frame error", e); }
+    };
+    socket.onerror = () => {
+      if (!opened) reject(new Error(`Cannot reach live server at ${url}`));
+      else handlers.onError('Live connection error.');
+    };
+    socket.onclose = () => { if (opened) handlers.onClose(); };
+  }),
+});
+
+export const createLiveTransport = (): LiveTransport | null => {
+  if (process.env.LIVE_SERVER_URL) return createWebSocketLiveTransport(process.env.LIVE_SERVER_URL);
+  if (process.env.API_KEY) return createGeminiLiveTransport(process.env.API_KEY);
+  return null;
+};
@@ -0,0 +1,109 @@
+
+import { LanguagePair, GlossaryTerm } from '../types';
+import { LANGUAGES } from '../languages';
+import type { PromptContext, TranscribeRequest, DiarizedTurn } from './aiProvider';
+
+// Empty when nothing matched, so the prompt carries no glossary section at all.
+export const formatGlossary = (terms: GlossaryTerm[], mode: 'spelling' | 'translation') => terms.map(t => {
+  if (mode === 'spelling') return `- ${t.source}`;
+  const rendering = t.doNotTranslate ? 'keep as is, do not translate' : `"${t.target || t.source}"`;
+  return `- "${t.source}" => ${rendering}${t.note ? ` (${t.note})` : ''}`;
+}).join('\n');
+
+export const buildRefineInstruction = ({ pair, contextDesc, reference, glossary }: PromptContext) => {
+  const terms = formatGlossary(glossary, 'spelling');
+  return `Expert AI Transcriber. Polish speech to text transcript immediately.
+   CONTEXT: ${contextDesc}.${reference ? `
+   REFERENCE PASSAGES:
+${reference}
+   Match technical jargon found in the passages.` : ''}${terms ? `
+   GLOSSARY TERMS (use this exact spelling):
+${terms}` : ''}
+   Rules: Add punctuation, fix homophones, preserve exact meaning. Output ${LANGUAGES[pair.source].name} only.`;
+};
+
+export const buildRefinePrompt = (chunk: string) => `Refine: "${chunk}"`;
+
+export const buildTranslateInstruction = ({ pair, contextDesc, reference, glossary }: PromptContext) => {
+  const source = LANGUAGES[pair.source];
+  const target = LANGUAGES[pair.target];
+  const terms = formatGlossary(glossary, 'translation');
+  return `Expert Professional Simultaneous Interpreter (${source.label} -> ${target.label}).
+   CONTEXT: ${contextDesc}.${reference ? `
+   REFERENCE PASSAGES:
+${reference}` : ''}${terms ? `
+   GLOSSARY (mandatory renderings):
+${terms}` : ''}
+
+   RULES:
+   1. Output ONLY ${target.name}.
+   2. Render every GLOSSARY term exactly as listed; use the REFERENCE PASSAGES for other specific terms and project names.
+   3. Zero-Latency flow: Translate immediately and concisely.
+   4. Tone: Professional and accurate.`;
+};
+
+export const buildTranslatePrompt = (chunk: string, pair: LanguagePair) => `Interpret to ${LANGUAGES[pair.target].name}: "${chunk}"`;
+
+export const buildSummaryInstruction = ({ pair, contextDesc, glossary }: PromptContext) => {
+  const terms = formatGlossary(glossary, 'translation');
+  return `Expert Meeting Secretary.
+   CONTEXT: ${contextDesc}.${terms ? `
+   GLOSSARY (mandatory renderings):
+${terms}` : ''}
+   Summarize the ${LANGUAGES[pair.source].name} meeting transcript for the minutes: key points, decisions and action items as short bullet lists.
+   Write the summary in ${LANGUAGES[pair.target].name}. Do not invent facts that are not in the transcript.`;
+};
+
+export const buildSummaryPrompt = (transcript: string) => `Transcript:\n${transcript}`;
+
+const continuation = (previousText?: string) => previousText ? `
+   This audio continues a longer recording whose previous part ended with: "${previousText}"
+   Transcribe only what is spoken in this audio.` : '';
+
+export const buildTranscribePrompt = ({ pair, contextDesc, previousText }: TranscribeRequest) =>
+  `Transcribe this ${LANGUAGES[pair.source].name} audio file verbatim. Use this context: ${contextDesc}${continuation(previousText)}`;
+
+// Whisper's `prompt` is not an instruction but a stand-in for preceding transcript,
+// read for vocabulary and style and cut to its last ~224 tokens. It gets the glossary
+// terms and the end of the previous chunk; the language goes in its own field.
+const WHISPER_TERMS_CHARS = 300;
+const WHISPER_PROMPT_CHARS = 800;
+
+export const buildWhisperPrompt = ({ terms = [], previousText = '' }: TranscribeRequest) => {
+  const joined = terms.join(', ');
+  // A long glossary is cut at the last whole term that fits.
+  const vocabulary = joined.length <= WHISPER_TERMS_CHARS ? joined : joined.slice(0, WHISPER_TERMS_CHARS).replace(/,[^,]*$/, '');
+  const prompt = [vocabulary && `${vocabulary}.`, previousText].filter(Boolean).join(' ');
+  return prompt.length <= WHISPER_PROMPT_CHARS ? prompt : prompt.slice(-WHISPER_PROMPT_CHARS);
+};
+
+// Each chunk is diarized on its own, so the labels from earlier chunks are passed on
+// for the model to keep the same voice under the same label.
+const speakerContinuity = (knownSpeakers?: string[]) => knownSpeakers?.length ? `
+   Earlier parts of the recording used these speaker labels: ${knownSpeakers.map(s => `"${s}"`).join(', ')}. Give a voice heard there the same label, and number any new voice after them.` : '';
+
+export const buildDiarizePrompt = ({ pair, contextDesc, previousText, knownSpeakers }: TranscribeRequest) =>
+  `Transcribe this ${LANGUAGES[pair.source].name} audio file verbatim and attribute every turn to its speaker.
+   Use this context: ${contextDesc}${continuation(previousText)}
+   Label speakers "Speaker 1", "Speaker 2"... in order of first appearance unless their names are stated in the audio.${speakerContinuity(knownSpeakers)}
+   Return a JSON array of turns: [{"speaker": string, "text": string, "startMs": number, "endMs": number}].`;
+
+export const buildOcrPrompt = () =>
+  `Transcribe all text printed on this document page exactly as written, in reading order.
+   Keep paragraphs and list items on separate lines and table rows on one line with cells separated by " | ".
+   Output only the page text, without commentary. If the page has no text, output nothing.`;
+
+// Tolerates code fences and loosely typed fields in model output.
+export const parseDiarizedTurns = (raw: string): DiarizedTurn[] => {
+  const json = raw.replace(/^```(?:json)?\s*|\s*```$/g, '').trim();
+  const parsed = JSON.parse(json || '[]');
+  if (!Array.isArray(parsed)) return [];
+  return parsed
+    .map((t: any) => ({
+      speaker: String(t?.speaker || 'Speaker 1'),
+      text: String(t?.text || '').trim(),
+      startMs: Number(t?.startMs) || 0,
+      endMs: Number(t?.endMs) || Number(t?.startMs) || 0,
+    }))
+    .filter(t => t.text);
+};
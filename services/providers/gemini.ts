@@ -0,0 +1,116 @@
+
+import { GoogleGenAI, Type } from '@google/genai';
+import type { AIProvider } from '../aiProvider';
+import { buildRefineInstruction, buildRefinePrompt, buildTranslateInstruction, buildTranslatePrompt, buildTranscribePrompt, buildDiarizePrompt, parseDiarizedTurns, buildSummaryInstruction, buildSummaryPrompt, buildOcrPrompt } from '../prompts';
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = error => reject(error);
+  });
+};
+
+export const createGeminiProvider = (apiKey: string, model: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    kind: 'gemini',
+    model,
+    refine: async (chunk, ctx) => {
+      const res = await ai.models.generateContent({
+        model,
+        contents: buildRefinePrompt(chunk),
+        config: { systemInstruction: buildRefineInstruction(ctx), temperature: 0.1 }
+      });
+      return (res.text || '').trim();
+    },
+    translate: async (chunk, ctx) => {
+      const res = await ai.models.generateContent({
+        model,
+        contents: buildTranslatePrompt(chunk, ctx.pair),
+        config: { systemInstruction: buildTranslateInstruction(ctx), temperature: 0.1 }
+      });
+      return (res.text || '').trim();
+    },
+    translateStream: async (chunk, ctx, onDelta, signal) => {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: buildTranslatePrompt(chunk, ctx.pair),
+        config: { systemInstruction: buildTranslateInstruction(ctx), temperature: 0.1, abortSignal: signal }
+      });
+      let full = '';
+      for await (const part of stream) {
+        if (signal.aborted) throw new DOMException('Translation superseded', 'AbortError');
+        if (!part.text) continue;
+        full += part.text;
+        onDelta(full);
+      }
+      return full.trim();
+    },
+    transcribe: async (req) => {
+      const base64 = await blobToBase64(req.audio);
+      const res = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            { inlineData: { data: base64, mimeType: req.audio.type || 'audio/mpeg' } },
+            { text: buildTranscribePrompt(req) }
+          ]
+        }
+      });
+      return (res.text || '').trim();
+    },
+    diarize: async (req) => {
+      const base64 = await blobToBase64(req.audio);
+      const res = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            { inlineData: { data: base64, mimeType: req.audio.type || 'audio/mpeg' } },
+            { text: buildDiarizePrompt(req) }
+          ]
+        },
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                speaker: { type: Type.STRING },
+                text: { type: Type.STRING },
+                startMs: { type: Type.NUMBER },
+                endMs: { type: Type.NUMBER },
+              },
+              required: ['speaker', 'text'],
+            },
+          },
+        }
+      });
+      return parseDiarizedTurns(res.text || '[]');
+    },
+    summarize: async (transcript, ctx) => {
+      const res = await ai.models.generateContent({
+        model,
+        contents: buildSummaryPrompt(transcript),
+        config: { systemInstruction: buildSummaryInstruction(ctx), temperature: 0.2 }
+      });
+      return (res.text || '').trim();
+    },
+    ocr: async (image) => {
+      const res = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            { inlineData: { data: await blobToBase64(image), mimeType: image.type || 'image/png' } },
+            { text: buildOcrPrompt() }
+          ]
+        },
+        config: { temperature: 0 }
+      });
+      return (res.text || '').trim();
+    },
+  };
+};
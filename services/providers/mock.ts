@@ -0,0 +1,49 @@
+
+import type { AIProvider } from '../aiProvider';
+import { LanguageCode, GlossaryTerm } from '../../types';
+import { LANGUAGES } from '../../languages';
+import { applyGlossary } from '../glossary';
+
+const STREAM_STEP_MS = 30;
+
+// Glossary terms are substituted so their effect is visible without a model.
+const mockTranslate = (chunk: string, target: LanguageCode, glossary: GlossaryTerm[] = []) => {
+  const lines = chunk.split('\n').map(l => l.trim()).filter(Boolean);
+  return lines.map(l => `[${LANGUAGES[target].label}] ${applyGlossary(glossary, l)}`).join('\n');
+};
+
+// Deterministic, offline stand-in: same input always yields the same output,
+// with no network access, so flows can be exercised without an API key.
+export const createMockProvider = (): AIProvider => ({
+  kind: 'mock',
+  model: 'mock-echo',
+  refine: async (chunk) => {
+    const collapsed = chunk.replace(/\s+/g, ' ').trim();
+    if (!collapsed) return '';
+    const capitalized = collapsed.charAt(0).toUpperCase() + collapsed.slice(1);
+    return /[.!?]$/.test(capitalized) ? capitalized : capitalized + '.';
+  },
+  translate: async (chunk, ctx) => mockTranslate(chunk, ctx.pair.target, ctx.glossary),
+  translateStream: async (chunk, ctx, onDelta, signal) => {
+    const words = mockTranslate(chunk, ctx.pair.target, ctx.glossary).split(/(?<=\s)/);
+    let full = '';
+    for (const word of words) {
+      await new Promise(res => setTimeout(res, STREAM_STEP_MS));
+      if (signal.aborted) throw new DOMException('Translation superseded', 'AbortError');
+      full += word;
+      onDelta(full);
+    }
+    return full.trim();
+  },
+  transcribe: async (req) => `[mock transcript: ${req.audio.size} bytes of ${req.audio.type || 'audio'}]`,
+  diarize: async (req) => [
+    { speaker: 'Speaker 1', text: `[mock turn 1: ${req.audio.size} bytes]`, startMs: 0, endMs: 4000 },
+    { speaker: 'Speaker 2', text: `[mock turn 2: ${req.audio.type || 'audio'}]`, startMs: 4000, endMs: 8000 },
+  ],
+  // Reads nothing, so scanned pages stay flagged as unreadable.
+  ocr: async () => '',
+  summarize: async (transcript, ctx) => {
+    const lines = transcript.split('\n').map(l => l.trim()).filter(Boolean);
+    return mockTranslate(lines.slice(0, 3).map(l => `- ${l}`).join('\n'), ctx.pair.target, ctx.glossary);
+  },
+});
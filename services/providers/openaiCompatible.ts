@@ -0,0 +1,150 @@
+
+import type { AIProvider } from '../aiProvider';
+import { buildRefineInstruction, buildRefinePrompt, buildTranslateInstruction, buildTranslatePrompt, buildWhisperPrompt, buildSummaryInstruction, buildSummaryPrompt, buildOcrPrompt } from '../prompts';
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Talks to any server implementing the OpenAI REST surface (llama.cpp server,
+// Ollama, vLLM, LM Studio). Errors carry the HTTP status so retryWithBackoff
+// can recognise rate limiting. Chat models cannot serve /audio/transcriptions,
+// so uploads name their own Whisper-style model.
+export const createOpenAICompatibleProvider = (baseUrl: string, model: string, apiKey = '', transcriptionModel = 'whisper-1'): AIProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  const request = async (path: string, init: RequestInit) => {
+    const res = await fetch(`${root}${path}`, { ...init, headers: { ...authHeaders, ...init.headers } });
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '');
+      throw Object.assign(new Error(`${res.status} ${res.statusText} ${detail}`.trim()), { status: res.status });
+    }
+    return res.json();
+  };
+
+  const chat = async (system: string, user: string): Promise<string> => {
+    const data = await request('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        temperature: 0.1,
+        messages: [{ role: 'system', content: system }, { role: 'user', content: user }]
+      })
+    });
+    return (data?.choices?.[0]?.message?.content || '').trim();
+  };
+
+  // Server-sent events: one `data: {json}` line per token batch, terminated by `data: [DONE]`.
+  const chatStream = async (system: string, user: string, onDelta: (partial: string) => void, signal: AbortSignal): Promise<string> => {
+    const res = await fetch(`${root}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: { ...authHeaders, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        temperature: 0.1,
+        stream: true,
+        messages: [{ role: 'system', content: system }, { role: 'user', content: user }]
+      })
+    });
+    if (!res.ok || !res.body) {
+      throw Object.assign(new Error(`${res.status} ${res.statusText}`), { status: res.status });
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let full = '';
+    // Keep-alives and malformed events are skipped rather than ending the stream.
+    const readLine = (line: string) => {
+      const payload = line.replace(/^data:\s*/, '').trim();
+      if (!payload || payload === '[DONE]' || !line.startsWith('data:')) return;
+      let delta: string | undefined;
+      try { delta = JSON.parse(payload)?.choices?.[0]?.delta?.content; }
+      catch (e) { console.warn("Skipped malformed stream event", payload); return; }
+      if (!delta) return;
+      full += delta;
+      onDelta(full);
+    };
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(readLine);
+    }
+    // The last event may arrive without a trailing newline.
+    buffer += decoder.decode();
+    buffer.split('\n').forEach(readLine);
+    return full.trim();
+  };
+
+  return {
+    kind: 'openai',
+    model,
+    refine: (chunk, ctx) => chat(buildRefineInstruction(ctx), buildRefinePrompt(chunk)),
+    translate: (chunk, ctx) => chat(buildTranslateInstruction(ctx), buildTranslatePrompt(chunk, ctx.pair)),
+    translateStream: (chunk, ctx, onDelta, signal) => chatStream(buildTranslateInstruction(ctx), buildTranslatePrompt(chunk, ctx.pair), onDelta, signal),
+    summarize: (transcript, ctx) => chat(buildSummaryInstruction(ctx), buildSummaryPrompt(transcript)),
+    // Vision models accept images as data URLs in a content part.
+    ocr: async (image) => {
+      const data = await request('/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          messages: [{
+            role: 'user',
+            content: [
+              { type: 'text', text: buildOcrPrompt() },
+              { type: 'image_url', image_url: { url: await blobToDataUrl(image) } }
+            ]
+          }]
+        })
+      });
+      return (data?.choices?.[0]?.message?.content || '').trim();
+    },
+    transcribe: async (req) => {
+      const form = new FormData();
+      form.append('file', req.audio, (req.audio as File).name || 'audio');
+      form.append('model', transcriptionModel);
+      form.append('language', req.pair.source);
+      const prompt = buildWhisperPrompt(req);
+      if (prompt) form.append('prompt', prompt);
+      const data = await request('/audio/transcriptions', { method: 'POST', body: form });
+      return (data?.text || '').trim();
+    },
+    // Plain Whisper servers return timed segments without speakers; diarizing
+    // servers (WhisperX and similar) add a `speaker` field to each segment.
+    diarize: async (req) => {
+      const form = new FormData();
+      form.append('file', req.audio, (req.audio as File).name || 'audio');
+      form.append('model', transcriptionModel);
+      form.append('language', req.pair.source);
+      const prompt = buildWhisperPrompt(req);
+      if (prompt) form.append('prompt', prompt);
+      form.append('response_format', 'verbose_json');
+      const data = await request('/audio/transcriptions', { method: 'POST', body: form });
+      const segments: any[] = Array.isArray(data?.segments) ? data.segments : [];
+      if (segments.length === 0) {
+        const text = (data?.text || '').trim();
+        return text ? [{ speaker: 'Speaker 1', text, startMs: 0, endMs: 0 }] : [];
+      }
+      return segments
+        .map(seg => ({
+          speaker: String(seg.speaker || 'Speaker 1'),
+          text: String(seg.text || '').trim(),
+          startMs: Math.round((Number(seg.start) || 0) * 1000),
+          endMs: Math.round((Number(seg.end) || 0) * 1000),
+        }))
+        .filter(t => t.text);
+    },
+  };
+};
@@ -0,0 +1,298 @@
+
+import * as mammoth from 'mammoth';
+import * as pdfjsLib from 'pdfjs-dist';
+import JSZip from 'jszip';
+import { GlossaryTerm, PageExtraction, ReferencePageQuality } from '../types';
+import { PAGE_BREAK } from './referenceIndex';
+import { readTable, detectGlossary } from './glossary';
+import { referenceTypeOf } from '../utils/references';
+
+// Handle ESM default export interop for pdfjs-dist
+const pdfJs = (pdfjsLib as any).default || pdfjsLib;
+
+// Configure PDF Worker
+if (pdfJs.GlobalWorkerOptions) {
+  pdfJs.GlobalWorkerOptions.workerSrc = 'https://esm.sh/pdfjs-dist@3.11.174/build/pdf.worker.min.js';
+}
+
+export interface ExtractedReference {
+  text: string;
+  glossary: GlossaryTerm[]; // Terms from a glossary-shaped table, offered for import
+  pages?: ReferencePageQuality[];
+}
+
+type Progress = (label: string) => void;
+// Reads the text on a rendered page image; supplied when an AI engine can do OCR.
+export type OcrReader = (image: Blob) => Promise<string>;
+
+const fail = (message: string): never => { throw new Error(message); };
+
+// Collapses runs of spaces and blank lines left behind by stripped markup.
+const tidy = (text: string) => text
+  .split('\n')
+  .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+  .join('\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+// Rows become paragraphs, so the chunker packs them without splitting a row.
+const tableText = (rows: string[][]) => rows
+  .map(row => row.map(cell => cell.replace(/\s+/g, ' ').trim()).join(' | ').replace(/( \| )+$/, ''))
+  .filter(line => line.replace(/[|\s]/g, ''))
+  .join('\n\n');
+
+// Pages with fewer visible characters than this have no usable text layer (scans,
+// or only a page number in the footer).
+const MIN_PAGE_CHARS = 40;
+// Scale at which scanned pages are rendered for OCR; 2x keeps small print legible.
+const OCR_RENDER_SCALE = 2;
+
+// Share of a page's words that look like words rather than extraction debris:
+// broken glyph runs, private-use characters, stray symbols.
+const textConfidence = (text: string) => {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return 0;
+  const wordLike = tokens.filter(t => /^[\p{P}\p{S}]*[\p{L}\p{N}][\p{L}\p{M}\p{N}'\u2019./\-]*[\p{P}\p{S}]*$/u.test(t)).length;
+  return wordLike / tokens.length;
+};
+
+const renderPage = async (page: any): Promise<Blob> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+  return new Promise((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not render the page.')), 'image/png'));
+};
+
+const extractPdf = async (file: File, onProgress: Progress, ocr?: OcrReader): Promise<ExtractedReference> => {
+  let pdf: any;
+  try { pdf = await pdfJs.getDocument({ data: await file.arrayBuffer() }).promise; }
+  catch (e) {
+    console.error("PDF Parse Error", e);
+    return fail('Could not parse the PDF.');
+  }
+  const pages: string[] = [];
+  const quality: ReferencePageQuality[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    onProgress(`Page ${i}/${pdf.numPages}`);
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    let text = textContent.items.map((item: any) => item.str + (item.hasEOL ? '\n' : ' ')).join('');
+    let method: PageExtraction = 'text';
+    if (text.replace(/\s/g, '').length < MIN_PAGE_CHARS) {
+      method = 'none';
+      // A failed page is reported with zero confidence rather than failing the file.
+      if (ocr) {
+        onProgress(`OCR page ${i}/${pdf.numPages}`);
+        try {
+          const recognized = await ocr(await renderPage(page));
+          if (recognized.trim()) { text = recognized; method = 'ocr'; }
+        } catch (e) {
+          console.error("OCR error", file.name, i, e);
+        }
+      }
+    }
+    pages.push(text);
+    quality.push({ method, confidence: method === 'none' ? 0 : textConfidence(text) });
+  }
+  return { text: pages.join(PAGE_BREAK), glossary: [], pages: quality };
+};
+
+// --- Office Open XML (PPTX, XLSX) ---
+
+const openZip = async (file: File, kind: string) => {
+  try { return await JSZip.loadAsync(await file.arrayBuffer()); }
+  catch (e) { return fail(`Not a valid ${kind} file.`); }
+};
+
+const readXml = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const entry = zip.file(path);
+  return entry ? new DOMParser().parseFromString(await entry.async('string'), 'application/xml') : null;
+};
+
+const elements = (root: Document | Element, tag: string) => Array.from(root.getElementsByTagName(tag));
+
+// Resolves a relationship target against the folder of the part that declares it.
+const resolvePart = (fromPart: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = fromPart.split('/').slice(0, -1);
+  target.split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  });
+  return parts.join('/');
+};
+
+const relationshipsOf = async (zip: JSZip, part: string) => {
+  const slash = part.lastIndexOf('/');
+  const rels = await readXml(zip, `${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`);
+  return rels ? elements(rels, 'Relationship').map(rel => ({
+    id: rel.getAttribute('Id') || '',
+    type: rel.getAttribute('Type') || '',
+    part: resolvePart(part, rel.getAttribute('Target') || ''),
+  })) : [];
+};
+
+const paragraphsOf = (root: Document | Element) => elements(root, 'a:p')
+  .map(p => elements(p, 'a:t').map(t => t.textContent || '').join('').trim())
+  .filter(Boolean);
+
+// Notes pages also carry the slide image and number placeholders; only the body is notes.
+const notesOf = (notes: Document) => elements(notes, 'p:sp')
+  .filter(shape => elements(shape, 'p:ph').some(ph => ph.getAttribute('type') === 'body'))
+  .flatMap(paragraphsOf);
+
+const extractPptx = async (file: File, onProgress: Progress) => {
+  const zip = await openZip(file, 'PowerPoint');
+  const presentation = await readXml(zip, 'ppt/presentation.xml') || fail('Not a valid PowerPoint file.');
+  const rels = await relationshipsOf(zip, 'ppt/presentation.xml');
+  // Slide files keep their creation number; the presentation lists the shown order.
+  const slides = elements(presentation, 'p:sldId')
+    .map(el => rels.find(rel => rel.id === el.getAttribute('r:id'))?.part)
+    .filter((part): part is string => !!part && !!zip.file(part));
+  if (slides.length === 0) fail('The presentation has no slides.');
+
+  const pages: string[] = [];
+  for (const [i, part] of slides.entries()) {
+    onProgress(`Slide ${i + 1}/${slides.length}`);
+    const slide = await readXml(zip, part);
+    const notesPart = (await relationshipsOf(zip, part)).find(rel => rel.type.endsWith('/notesSlide'))?.part;
+    const notes = notesPart ? await readXml(zip, notesPart) : null;
+    const noteLines = notes ? notesOf(notes) : [];
+    pages.push([
+      `Slide ${i + 1}`,
+      ...(slide ? paragraphsOf(slide) : []),
+      ...(noteLines.length > 0 ? ['', 'Speaker notes:', ...noteLines] : []),
+    ].join('\n'));
+  }
+  return pages.join(PAGE_BREAK);
+};
+
+// "BC12" -> 54 (zero-based column of the cell reference).
+const columnIndex = (ref: string) => ref.replace(/[^A-Z]/gi, '').toUpperCase().split('')
+  .reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+// Rich-text runs are concatenated; phonetic guides (rPh) are not part of the value.
+const stringItemText = (item: Element) => elements(item, 't')
+  .filter(t => t.parentElement?.tagName !== 'rPh')
+  .map(t => t.textContent || '')
+  .join('');
+
+const readSheet = (sheet: Document, shared: string[]): string[][] => elements(sheet, 'row').map(row => {
+  const values: string[] = [];
+  elements(row, 'c').forEach(cell => {
+    const ref = cell.getAttribute('r');
+    const col = ref ? columnIndex(ref) : values.length;
+    const type = cell.getAttribute('t');
+    const raw = cell.getElementsByTagName('v')[0]?.textContent || '';
+    values[col] = type === 's' ? shared[Number(raw)] || ''
+      : type === 'inlineStr' ? stringItemText(cell)
+      : type === 'b' ? (raw === '1' ? 'TRUE' : 'FALSE')
+      : raw;
+  });
+  return Array.from(values, v => v || '');
+}).filter(row => row.some(cell => cell.trim()));
+
+const extractXlsx = async (file: File, onProgress: Progress): Promise<ExtractedReference> => {
+  const zip = await openZip(file, 'Excel');
+  const workbook = await readXml(zip, 'xl/workbook.xml') || fail('Not a valid Excel file.');
+  const sharedXml = await readXml(zip, 'xl/sharedStrings.xml');
+  const shared = sharedXml ? elements(sharedXml, 'si').map(stringItemText) : [];
+  const rels = await relationshipsOf(zip, 'xl/workbook.xml');
+  const sheets = elements(workbook, 'sheet').map(el => ({
+    name: el.getAttribute('name') || '',
+    part: rels.find(rel => rel.id === el.getAttribute('r:id'))?.part || '',
+  }));
+
+  const pages: string[] = [];
+  const glossary: GlossaryTerm[] = [];
+  for (const [i, { name, part }] of sheets.entries()) {
+    onProgress(`Sheet ${i + 1}/${sheets.length}`);
+    const sheet = await readXml(zip, part);
+    const rows = sheet ? readSheet(sheet, shared) : [];
+    if (rows.length === 0) continue;
+    glossary.push(...detectGlossary(rows));
+    pages.push(`Sheet: ${name}\n\n${tableText(rows)}`);
+  }
+  return { text: pages.join(PAGE_BREAK), glossary };
+};
+
+// --- Markup and subtitles ---
+
+const BLOCK_SELECTOR = 'p,div,section,article,header,footer,main,aside,nav,li,tr,table,ul,ol,dl,dt,dd,pre,blockquote,figure,figcaption,h1,h2,h3,h4,h5,h6';
+
+const extractHtml = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script,style,noscript,template,svg,iframe').forEach(el => el.remove());
+  doc.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+  doc.querySelectorAll('td,th').forEach(el => el.append(' | '));
+  doc.querySelectorAll(BLOCK_SELECTOR).forEach(el => { el.before('\n\n'); el.append('\n\n'); });
+  return tidy((doc.body?.textContent || '').replace(/( \| )+\n/g, '\n'));
+};
+
+// Keeps the words and drops the syntax; tables keep their pipes as column separators.
+const extractMarkdown = (markdown: string) => tidy(markdown
+  .replace(/^\ufeff?---\n[\s\S]*?\n---\n/, '')
+  .replace(/^\s*(```|~~~).*$/gm, '')
+  .replace(/<!--[\s\S]*?-->/g, '')
+  .replace(/<[^>\n]+>/g, '')
+  .replace(/^\s{0,3}\[[^\]]+\]:\s+\S+.*$/gm, '')
+  .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+  .replace(/^\s{0,3}#{1,6}\s+|\s+#+\s*$/gm, '')
+  .replace(/^\s{0,3}>\s?/gm, '')
+  .replace(/^\s*\|?(\s*:?-{3,}:?\s*\|)+\s*(:?-{3,}:?)?\s*$/gm, '')
+  .replace(/^\s{0,3}([-*_])(\s*\1){2,}\s*$/gm, '')
+  .replace(/(\*\*|\*|~~|`)(?=\S)([^\n]*?\S)\1/g, '$2')
+  .replace(/(?<![\p{L}\p{N}])(__|_)(?=\S)([^\n]*?\S)\1(?![\p{L}\p{N}])/gu, '$2'));
+
+// Drops the header, cue numbers, timings and styling. Voice tags keep the speaker's
+// name, and repeated lines from roll-up captions are kept once.
+const extractSubtitles = (text: string) => {
+  const lines: string[] = [];
+  text.replace(/^\ufeff/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/).forEach(block => {
+    const rows = block.split('\n');
+    const timing = rows.findIndex(row => row.includes('-->'));
+    if (timing < 0) return; // WEBVTT header, NOTE, STYLE and REGION blocks
+    const cue = rows.slice(timing + 1).join(' ')
+      .replace(/<v(?:\.[^\s>]+)?\s+([^>]+)>/g, '$1: ')
+      .replace(/<[^>]+>/g, '')
+      .replace(/\{\\[^}]*\}/g, '')
+      .replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (cue && cue !== lines[lines.length - 1]) lines.push(cue);
+  });
+  return lines.join('\n\n');
+};
+
+const extractCsv = (text: string): ExtractedReference => {
+  const rows = readTable(text);
+  return { text: tableText(rows), glossary: detectGlossary(rows) };
+};
+
+// Reads an uploaded reference file into plain text for indexing. Throws with a
+// message fit to show next to the file name.
+export const extractReference = async (file: File, onProgress: Progress = () => {}, ocr?: OcrReader): Promise<ExtractedReference> => {
+  const plain = (text: string): ExtractedReference => ({ text, glossary: [] });
+  let result: ExtractedReference;
+  switch (referenceTypeOf(file.name)) {
+    case 'pdf': result = await extractPdf(file, onProgress, ocr); break;
+    case 'docx':
+      try { result = plain((await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() })).value); }
+      catch (e) { console.error("DOCX Parse Error", e); result = fail('Not a valid Word document.'); }
+      break;
+    case 'pptx': result = plain(await extractPptx(file, onProgress)); break;
+    case 'xlsx': result = await extractXlsx(file, onProgress); break;
+    case 'csv': result = extractCsv(await file.text()); break;
+    case 'html': result = plain(extractHtml(await file.text())); break;
+    case 'md': result = plain(extractMarkdown(await file.text())); break;
+    case 'srt':
+    case 'vtt': result = plain(extractSubtitles(await file.text())); break;
+    default: result = plain(await file.text());
+  }
+  // A scan read without OCR is returned as is; its pages are all flagged unreadable.
+  if (!result.text.replace(/\f/g, '').trim() && !(result.pages && !ocr)) fail('No text found in this file.');
+  return result;
+};
@@ -0,0 +1,128 @@
+
+// Lexical retrieval over the session's reference material. Documents are split
+// into passages and ranked with BM25, entirely in the browser, so only the few
+// passages relevant to the text at hand are sent with a prompt.
+
+import { ReferenceDocument } from '../types';
+
+export interface ReferencePassage {
+  id: number;
+  text: string;
+  source: string; // Name of the document the passage came from
+  page?: number; // 1-based; set when the source had page breaks (PDF)
+}
+
+export interface PassageHit {
+  passage: ReferencePassage;
+  score: number;
+}
+
+export interface ReferenceIndex {
+  passages: ReferencePassage[];
+  postings: Map<string, { doc: number; tf: number }[]>;
+  lengths: number[];
+  avgLength: number;
+}
+
+// Extractors separate pages with a form feed.
+export const PAGE_BREAK = '\f';
+
+const TARGET_PASSAGE_CHARS = 700;
+const MAX_PASSAGE_CHARS = 1000;
+const DEFAULT_TOP_K = 3;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Hits below this, or far below the best hit, matched on common words only.
+const MIN_SCORE = 1;
+const MIN_RELATIVE_SCORE = 0.3;
+
+const CJK_RUN = /^[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]+$/;
+
+// Words are lowercased letter/number runs. Scripts written without spaces are
+// indexed as overlapping character pairs, the usual lexical fallback for them.
+export const tokenize = (text: string): string[] => (text.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).flatMap(word => {
+  if (!CJK_RUN.test(word) || word.length < 2) return [word];
+  return Array.from({ length: word.length - 1 }, (_, i) => word.slice(i, i + 2));
+});
+
+const splitLong = (paragraph: string): string[] => {
+  if (paragraph.length <= MAX_PASSAGE_CHARS) return [paragraph];
+  const sentences = paragraph.match(/[^.!?。！？]+[.!?。！？]*\s*/g) || [paragraph];
+  const pieces: string[] = [''];
+  sentences.forEach(sentence => {
+    if (pieces[pieces.length - 1].length + sentence.length > TARGET_PASSAGE_CHARS && pieces[pieces.length - 1]) pieces.push('');
+    pieces[pieces.length - 1] += sentence;
+  });
+  // A single run-on sentence is cut hard rather than left oversized.
+  return pieces.flatMap(p => p.length <= MAX_PASSAGE_CHARS ? [p.trim()] : p.match(new RegExp(`[\\s\\S]{1,${TARGET_PASSAGE_CHARS}}`, 'g'))!.map(s => s.trim()));
+};
+
+// Packs paragraphs into passages of roughly TARGET_PASSAGE_CHARS; passages never cross a page.
+export const chunkReference = (text: string, source = ''): ReferencePassage[] => {
+  const pages = text.split(PAGE_BREAK);
+  const hasPages = pages.length > 1;
+  const passages: ReferencePassage[] = [];
+  pages.forEach((pageText, pageIndex) => {
+    let current = '';
+    const flush = () => {
+      if (current.trim()) passages.push({ id: passages.length, text: current.trim(), source, ...(hasPages ? { page: pageIndex + 1 } : {}) });
+      current = '';
+    };
+    pageText.split(/\n\s*\n|\n(?=\s*[-*•\d])/).flatMap(p => splitLong(p.replace(/\s+/g, ' ').trim())).filter(Boolean).forEach(paragraph => {
+      if (current && current.length + paragraph.length > TARGET_PASSAGE_CHARS) flush();
+      current = current ? `${current}\n${paragraph}` : paragraph;
+    });
+    flush();
+  });
+  return passages;
+};
+
+// One index spans all the given documents; passage ids follow document order.
+export const buildReferenceIndex = (documents: Pick<ReferenceDocument, 'name' | 'text'>[]): ReferenceIndex => {
+  const passages = documents
+    .flatMap(doc => chunkReference(doc.text, doc.name))
+    .map((passage, id) => ({ ...passage, id }));
+  const postings = new Map<string, { doc: number; tf: number }[]>();
+  const lengths = passages.map(passage => {
+    const tokens = tokenize(passage.text);
+    const counts = new Map<string, number>();
+    tokens.forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+    counts.forEach((tf, term) => {
+      const list = postings.get(term);
+      if (list) list.push({ doc: passage.id, tf });
+      else postings.set(term, [{ doc: passage.id, tf }]);
+    });
+    return tokens.length;
+  });
+  const avgLength = lengths.length ? lengths.reduce((a, b) => a + b, 0) / lengths.length : 0;
+  return { passages, postings, lengths, avgLength };
+};
+
+export const searchReference = (index: ReferenceIndex, query: string, topK = DEFAULT_TOP_K): PassageHit[] => {
+  const total = index.passages.length;
+  if (total === 0) return [];
+  const scores = new Map<number, number>();
+  new Set(tokenize(query)).forEach(term => {
+    const list = index.postings.get(term);
+    if (!list) return;
+    const idf = Math.log(1 + (total - list.length + 0.5) / (list.length + 0.5));
+    list.forEach(({ doc, tf }) => {
+      const norm = tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * index.lengths[doc] / (index.avgLength || 1)));
+      scores.set(doc, (scores.get(doc) || 0) + idf * norm);
+    });
+  });
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  const floor = Math.max(MIN_SCORE, (ranked[0]?.[1] || 0) * MIN_RELATIVE_SCORE);
+  return ranked
+    .filter(([, score]) => score >= floor)
+    .slice(0, topK)
+    .map(([doc, score]) => ({ passage: index.passages[doc], score }));
+};
+
+export const passageLabel = (passage: ReferencePassage) => [passage.source, passage.page && `p. ${passage.page}`].filter(Boolean).join(', ');
+
+// Passages go into prompts in document order, labelled with their document and page.
+export const formatPassages = (hits: PassageHit[]) => [...hits]
+  .sort((a, b) => a.passage.id - b.passage.id)
+  .map(({ passage }) => `${passageLabel(passage) ? `[${passageLabel(passage)}] ` : ''}${passage.text}`)
+  .join('\n---\n');
@@ -0,0 +1,178 @@
+
+import { Document, Packer, Paragraph, TextRun, HeadingLevel, Table, TableRow, TableCell, WidthType } from 'docx';
+import { SessionArchive, SessionData, SessionMetadata, Segment, Speaker, GlossaryTerm, ReferenceDocument } from '../types';
+import { LANGUAGES, DEFAULT_LANGUAGE_PAIR } from '../languages';
+import { segmentSource, segmentsFromLegacy } from '../utils/segments';
+import { referencesOf, enabledReferences } from '../utils/references';
+import { SPEAKER_STYLES } from '../utils/speakers';
+import { formatDuration, formatOffset, formatClock } from '../utils/time';
+
+export type ExportFormat = 'docx' | 'markdown' | 'json' | 'srt' | 'vtt';
+
+export interface ExportSections {
+  context: boolean;
+  glossary: boolean;
+  reference: boolean;
+  source: boolean;
+  target: boolean;
+  summary: boolean;
+}
+
+export const DEFAULT_EXPORT_SECTIONS: ExportSections = { context: true, glossary: true, reference: false, source: true, target: true, summary: false };
+
+export const ARCHIVE_TITLE = 'HIEUAI TRANSLATE - SESSION ARCHIVE';
+
+export const buildArchive = (meta: SessionMetadata, data: SessionData): SessionArchive => ({
+  format: 'hieuai-session',
+  version: 1,
+  exportedAt: Date.now(),
+  meta,
+  data,
+});
+
+export const serializeArchive = (archive: SessionArchive) => JSON.stringify(archive, null, 2);
+
+// Everything the document exporters need, resolved once from the archive.
+const readArchive = (archive: SessionArchive) => {
+  const { meta, data } = archive;
+  const pair = data.languagePair || DEFAULT_LANGUAGE_PAIR;
+  const segments = data.segments || segmentsFromLegacy(data.text, data.translatedText, meta.updatedAt);
+  const speakers = new Map((data.speakers || []).map(s => [s.id, s]));
+  return {
+    meta,
+    data,
+    source: LANGUAGES[pair.source],
+    target: LANGUAGES[pair.target],
+    segments,
+    pending: (data.pendingText || '').trim(),
+    references: enabledReferences(referencesOf(data, meta.updatedAt)),
+    speakerOf: (seg: Segment): Speaker | undefined => seg.speakerId ? speakers.get(seg.speakerId) : undefined,
+  };
+};
+
+const stamp = (seg: Segment) => `${formatOffset(seg.startOffsetMs)} · ${formatClock(seg.startedAt)}`;
+
+const headerLines = (archive: SessionArchive) => {
+  const { meta, source, target, references } = readArchive(archive);
+  return [
+    `Title: ${meta.name}`,
+    `Date: ${new Date(archive.exportedAt).toLocaleString()}`,
+    `Duration: ${formatDuration(meta.durationSeconds)}`,
+    `Languages: ${source.name} -> ${target.name}`,
+    ...(references.length > 0 ? [`Reference: ${references.map(r => r.name).join(', ')}`] : []),
+  ];
+};
+
+// Form feeds separate PDF pages in extracted reference text.
+const nonEmptyLines = (text: string) => text.split(/[\n\f]/).map(l => l.trim()).filter(Boolean);
+
+const glossaryRendering = (term: GlossaryTerm) => term.doNotTranslate ? `${term.source} (do not translate)` : term.target;
+
+// One section per enabled document; the importer reads each back as its own document.
+const referenceHeading = (doc: ReferenceDocument) => `Reference Material (${doc.name})`;
+
+// `glossary` is the list of shared terms to print, normally those used in the transcript.
+export const buildBilingualDocx = async (archive: SessionArchive, sections: ExportSections, summary = '', glossary: GlossaryTerm[] = []): Promise<Blob> => {
+  const { data, source, target, segments, pending, speakerOf, references } = readArchive(archive);
+  const showTranscript = sections.source || sections.target;
+  const columns = [sections.source && 'source', sections.target && 'target'].filter(Boolean) as ('source' | 'target')[];
+  const columnWidth = Math.floor(100 / (columns.length + 1));
+
+  const cell = (children: Paragraph[], width: number) => new TableCell({ children, width: { size: width, type: WidthType.PERCENTAGE } });
+  const headerCell = (text: string, width: number) => cell([new Paragraph({ children: [new TextRun({ text, bold: true })] })], width);
+
+  const segmentCell = (seg: Segment, column: 'source' | 'target') => {
+    const speaker = speakerOf(seg);
+    return cell([new Paragraph({
+      children: [
+        ...(speaker ? [new TextRun({ text: `${speaker.name}: `, bold: true, color: SPEAKER_STYLES[speaker.color].hex })] : []),
+        new TextRun(column === 'source' ? segmentSource(seg) : seg.translation),
+      ],
+    })], columnWidth);
+  };
+
+  const rows = [
+    new TableRow({
+      tableHeader: true,
+      children: [headerCell('Time', columnWidth), ...columns.map(c => headerCell(c === 'source' ? `Original (${source.name})` : `Interpretation (${target.name})`, columnWidth))],
+    }),
+    ...segments.map(seg => new TableRow({
+      children: [
+        cell([new Paragraph({ children: [new TextRun({ text: stamp(seg), color: '94A3B8', size: 16 })] })], columnWidth),
+        ...columns.map(c => segmentCell(seg, c)),
+      ],
+    })),
+    ...(pending && sections.source ? [new TableRow({
+      children: [cell([new Paragraph('')], columnWidth), ...columns.map(c => cell([new Paragraph(c === 'source' ? pending : '')], columnWidth))],
+    })] : []),
+  ];
+
+  const doc = new Document({
+    sections: [{
+      children: [
+        new Paragraph({ text: ARCHIVE_TITLE, heading: HeadingLevel.HEADING_1 }),
+        ...headerLines(archive).map(line => new Paragraph({ text: line })),
+        ...(sections.summary && summary ? [
+          new Paragraph({ text: 'Summary', heading: HeadingLevel.HEADING_2 }),
+          ...nonEmptyLines(summary).map(line => new Paragraph({ text: line })),
+        ] : []),
+        ...(sections.context ? [
+          new Paragraph({ text: 'Context & Objectives', heading: HeadingLevel.HEADING_2 }),
+          new Paragraph({ text: data.contextDesc || 'No context objectives provided.' }),
+        ] : []),
+        ...(sections.glossary && glossary.length > 0 ? [
+          new Paragraph({ text: 'Glossary', heading: HeadingLevel.HEADING_2 }),
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            rows: [
+              new TableRow({ tableHeader: true, children: [headerCell(source.name, 34), headerCell(target.name, 33), headerCell('Note', 33)] }),
+              ...glossary.map(term => new TableRow({
+                children: [term.source, glossaryRendering(term), term.note].map((text, i) => cell([new Paragraph(text)], i === 0 ? 34 : 33)),
+              })),
+            ],
+          }),
+        ] : []),
+        ...(sections.reference ? references.flatMap(doc => [
+          new Paragraph({ text: referenceHeading(doc), heading: HeadingLevel.HEADING_2 }),
+          ...nonEmptyLines(doc.text).map(line => new Paragraph({ text: line })),
+        ]) : []),
+        ...(showTranscript ? [
+          new Paragraph({ text: 'Transcript', heading: HeadingLevel.HEADING_2 }),
+          new Table({ rows, width: { size: 100, type: WidthType.PERCENTAGE } }),
+        ] : []),
+      ],
+    }],
+  });
+  return Packer.toBlob(doc);
+};
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+
+export const buildMarkdown = (archive: SessionArchive, sections: ExportSections, summary = '', glossary: GlossaryTerm[] = []) => {
+  const { data, source, target, segments, pending, speakerOf, references } = readArchive(archive);
+  const out: string[] = [`# ${archive.meta.name}`, '', ...headerLines(archive).slice(1).map(l => `- ${l}`), ''];
+
+  if (sections.summary && summary) out.push('## Summary', '', summary.trim(), '');
+  if (sections.context) out.push('## Context & Objectives', '', data.contextDesc || '_No context objectives provided._', '');
+  if (sections.glossary && glossary.length > 0) {
+    out.push('## Glossary', '', `| ${source.name} | ${target.name} | Note |`, '| --- | --- | --- |');
+    glossary.forEach(term => out.push(`| ${escapeCell(term.source)} | ${escapeCell(glossaryRendering(term))} | ${escapeCell(term.note)} |`));
+    out.push('');
+  }
+  if (sections.reference) {
+    references.forEach(doc => out.push(`## ${referenceHeading(doc)}`, '', '```', doc.text.replace(/\f/g, '\n\n').trim(), '```', ''));
+  }
+
+  const columns = [sections.source && 'source', sections.target && 'target'].filter(Boolean) as ('source' | 'target')[];
+  if (columns.length > 0) {
+    const titles = columns.map(c => c === 'source' ? `Original (${source.name})` : `Interpretation (${target.name})`);
+    out.push('## Transcript', '', `| Time | Speaker | ${titles.join(' | ')} |`, `| --- | --- | ${columns.map(() => '---').join(' | ')} |`);
+    segments.forEach(seg => {
+      const texts = columns.map(c => escapeCell(c === 'source' ? segmentSource(seg) : seg.translation));
+      out.push(`| ${stamp(seg)} | ${escapeCell(speakerOf(seg)?.name || '')} | ${texts.join(' | ')} |`);
+    });
+    if (pending && sections.source) out.push(`|  |  | ${columns.map(c => c === 'source' ? escapeCell(pending) : '').join(' | ')} |`);
+    out.push('');
+  }
+  return out.join('\n');
+};
@@ -0,0 +1,200 @@
+
+import * as mammoth from 'mammoth';
+import { SessionArchive, SessionData, SessionMetadata, Segment, Speaker, LanguageCode, LanguagePair } from '../types';
+import { LANGUAGES, DEFAULT_LANGUAGE_PAIR } from '../languages';
+import { ARCHIVE_TITLE } from './sessionExport';
+import { generateId } from '../utils/id';
+import { joinSource, joinTranslation, segmentsFromLegacy } from '../utils/segments';
+import { createSpeaker } from '../utils/speakers';
+import { createReference } from '../utils/references';
+
+export type ImportMode = 'replace' | 'copy';
+
+export interface ImportCollisions {
+  byId: SessionMetadata | null;
+  byName: SessionMetadata | null;
+}
+
+const fail = (message: string): never => { throw new Error(message); };
+
+export const parseArchiveJson = (raw: string): SessionArchive => {
+  let parsed: any;
+  try { parsed = JSON.parse(raw); } catch (e) { fail('File is not valid JSON.'); }
+  if (parsed?.format !== 'hieuai-session') fail('Not a session archive exported by this app.');
+  if (parsed.version !== 1) fail(`Unsupported archive version ${parsed.version}.`);
+  if (!parsed.meta?.id || typeof parsed.meta.name !== 'string' || !parsed.data) fail('Archive is missing session metadata.');
+  const data: SessionData = { text: '', translatedText: '', contextDesc: '', ...parsed.data };
+  return { ...parsed, data } as SessionArchive;
+};
+
+const languageByName = (name: string): LanguageCode | undefined =>
+  (Object.keys(LANGUAGES) as LanguageCode[]).find(code => LANGUAGES[code].name.toLowerCase() === name.trim().toLowerCase());
+
+const parseOffsetMs = (value: string) => {
+  const parts = value.trim().split(':').map(Number);
+  if (parts.length < 2 || parts.some(isNaN)) return 0;
+  return parts.reduce((total, part) => total * 60 + part, 0) * 1000;
+};
+
+const textOf = (el: Element) => (el.textContent || '').replace(/\s+/g, ' ').trim();
+
+// Reads a DOCX written by `buildBilingualDocx` (or the older two-block archive)
+// back into a session. Formatting that Word does not round-trip, like speaker
+// colors and wall-clock dates, is regenerated.
+export const parseArchiveDocx = async (arrayBuffer: ArrayBuffer, fileName: string): Promise<SessionArchive> => {
+  const { value: html } = await mammoth.convertToHtml({ arrayBuffer });
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const blocks = Array.from(doc.body.children);
+  if (!blocks.some(el => textOf(el) === ARCHIVE_TITLE)) fail('This DOCX was not produced by the session export.');
+
+  const now = Date.now();
+  const header: Record<string, string> = {};
+  const sections: Record<string, Element[]> = {};
+  let current = '';
+  blocks.forEach(el => {
+    if (el.tagName === 'H1') return;
+    if (el.tagName === 'H2') { current = textOf(el); sections[current] = []; return; }
+    if (current) { sections[current].push(el); return; }
+    // Older archives packed the whole header into one paragraph with line breaks.
+    el.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+    (el.textContent || '').split('\n').forEach(line => {
+      const match = line.match(/^\s*(\w+):\s*(.*)$/);
+      if (match) header[match[1].toLowerCase()] = match[2].trim();
+    });
+  });
+
+  const sectionText = (prefix: string) => {
+    const key = Object.keys(sections).find(k => k.startsWith(prefix));
+    return key ? sections[key].map(textOf).filter(Boolean).join('\n') : '';
+  };
+  const sectionName = (prefix: string) => Object.keys(sections).find(k => k.startsWith(prefix)) || '';
+
+  const [sourceName = '', targetName = ''] = (header.languages || '').split('->');
+  const headingLanguage = (prefix: string) => sectionName(prefix).match(/\(([^)]+)\)/)?.[1] || '';
+  const pair: LanguagePair = {
+    source: languageByName(sourceName) || languageByName(headingLanguage('Original')) || DEFAULT_LANGUAGE_PAIR.source,
+    target: languageByName(targetName) || languageByName(headingLanguage('Interpretation')) || DEFAULT_LANGUAGE_PAIR.target,
+  };
+
+  const speakers: Speaker[] = [];
+  const speakerId = (name: string) => {
+    const existing = speakers.find(s => s.name === name);
+    if (existing) return existing.id;
+    const created = createSpeaker(speakers.length, name);
+    speakers.push(created);
+    return created.id;
+  };
+
+  // A cell starts with a bold "Name: " run when the segment had a speaker.
+  const readCell = (cell: Element | undefined) => {
+    if (!cell) return { text: '', speaker: '' };
+    const strong = cell.querySelector('strong');
+    const label = strong && textOf(cell).startsWith(textOf(strong)) ? textOf(strong).replace(/:$/, '') : '';
+    return { text: label ? textOf(cell).slice(textOf(strong!).length).trim() : textOf(cell), speaker: label };
+  };
+
+  let segments: Segment[] = [];
+  let pendingText = '';
+  const table = sections['Transcript']?.find(el => el.tagName === 'TABLE');
+  if (table) {
+    const [headerRow, ...rows] = Array.from(table.querySelectorAll('tr'));
+    const titles = headerRow ? Array.from(headerRow.children).map(textOf) : [];
+    const sourceCol = titles.findIndex(t => t.startsWith('Original'));
+    const targetCol = titles.findIndex(t => t.startsWith('Interpretation'));
+    rows.forEach(row => {
+      const cells = Array.from(row.children);
+      const time = textOf(cells[0] || row);
+      const source = sourceCol >= 0 ? readCell(cells[sourceCol]) : { text: '', speaker: '' };
+      const target = targetCol >= 0 ? readCell(cells[targetCol]) : { text: '', speaker: '' };
+      if (!time) { pendingText = source.text; return; }
+      const offset = parseOffsetMs(time.split('·')[0]);
+      const label = source.speaker || target.speaker;
+      segments.push({
+        id: generateId(),
+        startedAt: now,
+        endedAt: now,
+        startOffsetMs: offset,
+        endOffsetMs: offset,
+        raw: source.text,
+        refined: source.text,
+        translation: target.text,
+        status: target.text ? 'translated' : 'refined',
+        ...(label ? { speakerId: speakerId(label) } : {}),
+      });
+    });
+  } else {
+    // Two-block archives, optionally with "[00:01 | 10:00 AM]" line stamps.
+    const unstamp = (text: string) => text.replace(/^\[[^\]]*\]\s*/gm, '');
+    segments = segmentsFromLegacy(unstamp(sectionText('Original Transcript')), unstamp(sectionText('Interpretation')), now);
+  }
+
+  // Each "Reference Material (name)" section is one document. Older archives had a
+  // single section, possibly unnamed or combined under "Glossary & Reference".
+  // Glossary tables are not imported: the glossary is shared across sessions.
+  const legacyHeading = sectionName('Glossary & Reference');
+  const references = [...Object.keys(sections).filter(k => k.startsWith('Reference Material')), ...(legacyHeading ? [legacyHeading] : [])]
+    .map(heading => {
+      const text = sectionText(heading);
+      const name = heading.match(/\(([^)]+)\)/)?.[1] || header.reference || 'Reference';
+      return createReference(name, new Blob([text]).size, text);
+    })
+    .filter(doc => doc.text);
+  const data: SessionData = {
+    text: joinSource(segments),
+    translatedText: joinTranslation(segments),
+    contextDesc: sectionText('Context & Objectives').replace(/^No context objectives provided\.$/, ''),
+    references,
+    languagePair: pair,
+    segments,
+    pendingText,
+    speakers,
+  };
+  const meta: SessionMetadata = {
+    id: generateId(),
+    name: header.title || fileName.replace(/(_archive)?\.docx$/i, '').replace(/_/g, ' '),
+    createdAt: now,
+    updatedAt: now,
+    durationSeconds: Math.round(parseOffsetMs(header.duration || '0:0') / 1000),
+    wordCount: data.text.split(/\s+/).filter(Boolean).length,
+  };
+  return { format: 'hieuai-session', version: 1, exportedAt: now, meta, data };
+};
+
+export const readArchiveFile = async (file: File): Promise<SessionArchive> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.json')) return parseArchiveJson(await file.text());
+  if (name.endsWith('.docx')) return parseArchiveDocx(await file.arrayBuffer(), file.name);
+  return fail('Choose a session .json or .docx export.');
+};
+
+export const detectCollisions = (archive: SessionArchive, sessions: SessionMetadata[]): ImportCollisions => ({
+  byId: sessions.find(s => s.id === archive.meta.id) || null,
+  byName: sessions.find(s => s.name.trim().toLowerCase() === archive.meta.name.trim().toLowerCase()) || null,
+});
+
+const uniqueName = (name: string, sessions: SessionMetadata[]) => {
+  const taken = new Set(sessions.map(s => s.name.trim().toLowerCase()));
+  if (!taken.has(name.trim().toLowerCase())) return name;
+  let n = 2;
+  while (taken.has(`${name} (${n})`.toLowerCase())) n++;
+  return `${name} (${n})`;
+};
+
+// `replace` overwrites the colliding session in place (id match first, then name);
+// `copy` keeps both by assigning a fresh id and a numbered name where needed.
+export const resolveImport = (archive: SessionArchive, sessions: SessionMetadata[], mode: ImportMode): { meta: SessionMetadata; data: SessionData } => {
+  const { byId, byName } = detectCollisions(archive, sessions);
+  const target = byId || byName;
+  if (mode === 'replace' && target) {
+    return { meta: { ...archive.meta, id: target.id, updatedAt: Date.now() }, data: archive.data };
+  }
+  return {
+    meta: {
+      ...archive.meta,
+      id: byId ? generateId() : archive.meta.id,
+      name: uniqueName(archive.meta.name, sessions),
+      updatedAt: Date.now(),
+    },
+    data: archive.data,
+  };
+};
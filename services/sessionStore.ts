@@ -0,0 +1,260 @@
+
+import { SessionMetadata, SessionData, SessionSnapshot, SnapshotData, SnapshotReason, AudioChunk, TranscriptionJob } from '../types';
+import { generateId } from '../utils/id';
+
+const DB_NAME = 'hieuai_scribe';
+const DB_VERSION = 4;
+const META_STORE = 'sessions';
+const DATA_STORE = 'sessionData';
+const SNAPSHOT_STORE = 'snapshots';
+const AUDIO_STORE = 'audio';
+const JOB_STORE = 'transcriptionJobs';
+
+// Retention per session: the newest snapshots are kept until either cap is hit.
+export const SNAPSHOT_RETENTION = { maxCount: 40, maxBytes: 8 * 1024 * 1024 };
+
+// Version 1 kept everything in localStorage; migrated once, then removed.
+const LEGACY_META_KEY = 'scribe_sessions_meta_v1';
+const LEGACY_DATA_PREFIX = 'scribe_session_data_v1_';
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+// Raised for any failed write so callers can tell the user instead of losing data silently.
+export class StorageWriteError extends Error {
+  readonly isQuotaExceeded: boolean;
+
+  constructor(action: string, cause: unknown) {
+    const name = (cause as DOMException)?.name;
+    const isQuotaExceeded = name === 'QuotaExceededError';
+    super(isQuotaExceeded
+      ? `Storage is full: could not ${action}. Delete old sessions or export them to free space.`
+      : `Could not ${action}: ${(cause as Error)?.message || name || 'unknown storage error'}.`);
+    this.name = 'StorageWriteError';
+    this.isQuotaExceeded = isQuotaExceeded;
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE);
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          db.createObjectStore(AUDIO_STORE, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(JOB_STORE)) {
+          db.createObjectStore(JOB_STORE, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+});
+
+const write = async (action: string, stores: string[], fn: (tx: IDBTransaction) => void) => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction(stores, 'readwrite');
+    fn(tx);
+    await transactionDone(tx);
+  } catch (e) {
+    throw new StorageWriteError(action, e);
+  }
+};
+
+export const listSessions = async (): Promise<SessionMetadata[]> => {
+  const db = await openDb();
+  const all = await requestResult(db.transaction(META_STORE).objectStore(META_STORE).getAll() as IDBRequest<SessionMetadata[]>);
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSessionData = async (id: string): Promise<SessionData | null> => {
+  const db = await openDb();
+  const data = await requestResult(db.transaction(DATA_STORE).objectStore(DATA_STORE).get(id) as IDBRequest<SessionData | undefined>);
+  return data || null;
+};
+
+// Metadata and data are written in one transaction so they never disagree.
+// `storageBytes` is measured here so the Vault can show what each session costs.
+export const saveSession = async (meta: SessionMetadata, data?: SessionData): Promise<SessionMetadata> => {
+  const stored = data ? { ...meta, storageBytes: new Blob([JSON.stringify(data)]).size } : meta;
+  await write(`save "${meta.name}"`, data ? [META_STORE, DATA_STORE] : [META_STORE], tx => {
+    tx.objectStore(META_STORE).put(stored);
+    if (data) tx.objectStore(DATA_STORE).put(data, meta.id);
+  });
+  return stored;
+};
+
+const deleteBySession = (store: IDBObjectStore, sessionId: string) => {
+  store.index('sessionId').getAllKeys(sessionId).onsuccess = (e) => {
+    ((e.target as IDBRequest<IDBValidKey[]>).result).forEach(key => store.delete(key));
+  };
+};
+
+export const deleteSession = (id: string) => write('delete the session', [META_STORE, DATA_STORE, SNAPSHOT_STORE, AUDIO_STORE, JOB_STORE], tx => {
+  tx.objectStore(META_STORE).delete(id);
+  tx.objectStore(DATA_STORE).delete(id);
+  deleteBySession(tx.objectStore(SNAPSHOT_STORE), id);
+  deleteBySession(tx.objectStore(AUDIO_STORE), id);
+  deleteBySession(tx.objectStore(JOB_STORE), id);
+});
+
+// Newest first.
+export const listSnapshots = async (sessionId: string): Promise<SessionSnapshot[]> => {
+  const db = await openDb();
+  const all = await requestResult(db.transaction(SNAPSHOT_STORE).objectStore(SNAPSHOT_STORE).index('sessionId').getAll(sessionId) as IDBRequest<SessionSnapshot[]>);
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const snapshotData = (data: SnapshotData): SnapshotData => ({
+  text: data.text,
+  translatedText: data.translatedText,
+  languagePair: data.languagePair,
+  segments: data.segments,
+  pendingText: data.pendingText,
+  speakers: data.speakers,
+});
+
+// Writes the snapshot and prunes the session's history to SNAPSHOT_RETENTION in
+// the same transaction, so the history never outgrows its budget.
+export const saveSnapshot = async (sessionId: string, session: SessionData, reason: SnapshotReason): Promise<SessionSnapshot> => {
+  const data = snapshotData(session);
+  const snapshot: SessionSnapshot = {
+    id: generateId(),
+    sessionId,
+    createdAt: Date.now(),
+    reason,
+    wordCount: data.text.split(/\s+/).filter(Boolean).length,
+    bytes: new Blob([JSON.stringify(data)]).size,
+    data,
+  };
+  await write('save a history snapshot', [SNAPSHOT_STORE], tx => {
+    const store = tx.objectStore(SNAPSHOT_STORE);
+    store.put(snapshot);
+    store.index('sessionId').getAll(sessionId).onsuccess = (e) => {
+      const history = ((e.target as IDBRequest<SessionSnapshot[]>).result).sort((a, b) => b.createdAt - a.createdAt);
+      let bytes = 0;
+      history.forEach((item, i) => {
+        bytes += item.bytes;
+        if (i > 0 && (i >= SNAPSHOT_RETENTION.maxCount || bytes > SNAPSHOT_RETENTION.maxBytes)) store.delete(item.id);
+      });
+    };
+  });
+  return snapshot;
+};
+
+// Recorded audio is written chunk by chunk as the recorder delivers it, so a
+// crash or closed tab loses at most the last timeslice.
+export const saveAudioChunk = (chunk: AudioChunk) => write('save recorded audio', [AUDIO_STORE], tx => {
+  tx.objectStore(AUDIO_STORE).put(chunk);
+});
+
+// In recording order: takes by start offset, chunks by sequence.
+export const listAudioChunks = async (sessionId: string): Promise<AudioChunk[]> => {
+  const db = await openDb();
+  const all = await requestResult(db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).index('sessionId').getAll(sessionId) as IDBRequest<AudioChunk[]>);
+  return all.sort((a, b) => a.startOffsetMs - b.startOffsetMs || a.seq - b.seq);
+};
+
+export const deleteSessionAudio = (sessionId: string) => write('delete recorded audio', [AUDIO_STORE], tx => {
+  deleteBySession(tx.objectStore(AUDIO_STORE), sessionId);
+});
+
+// Audio bytes per session id. Audio is kept out of SessionData, so it is not part
+// of `storageBytes` or of history snapshots.
+export const audioUsageBySession = async (): Promise<Record<string, number>> => {
+  const db = await openDb();
+  const usage: Record<string, number> = {};
+  await new Promise<void>((resolve, reject) => {
+    const request = db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      const { sessionId, bytes } = cursor.value as AudioChunk;
+      usage[sessionId] = (usage[sessionId] || 0) + bytes;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+  return usage;
+};
+
+export const saveTranscriptionJob = (job: TranscriptionJob) => write('save transcription progress', [JOB_STORE], tx => {
+  tx.objectStore(JOB_STORE).put(job);
+});
+
+export const loadTranscriptionJob = async (id: string): Promise<TranscriptionJob | null> => {
+  const db = await openDb();
+  const job = await requestResult(db.transaction(JOB_STORE).objectStore(JOB_STORE).get(id) as IDBRequest<TranscriptionJob | undefined>);
+  return job || null;
+};
+
+// Unfinished jobs of a session, newest first.
+export const listTranscriptionJobs = async (sessionId: string): Promise<TranscriptionJob[]> => {
+  const db = await openDb();
+  const all = await requestResult(db.transaction(JOB_STORE).objectStore(JOB_STORE).index('sessionId').getAll(sessionId) as IDBRequest<TranscriptionJob[]>);
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteTranscriptionJob = (id: string) => write('discard transcription progress', [JOB_STORE], tx => {
+  tx.objectStore(JOB_STORE).delete(id);
+});
+
+// Copies v1 localStorage sessions into IndexedDB and only then removes the old
+// keys, so an interrupted migration is simply retried on the next load.
+export const migrateLegacyStorage = async (): Promise<number> => {
+  const metaRaw = localStorage.getItem(LEGACY_META_KEY);
+  if (!metaRaw) return 0;
+  let metas: SessionMetadata[] = [];
+  try { metas = JSON.parse(metaRaw); } catch (e) { console.error("Legacy vault is unreadable", e); return 0; }
+
+  const entries = metas.map(meta => {
+    const raw = localStorage.getItem(LEGACY_DATA_PREFIX + meta.id);
+    let data: SessionData | null = null;
+    try { data = raw ? JSON.parse(raw) : null; } catch (e) { console.error("Legacy session is unreadable", meta.id, e); }
+    return { meta: data ? { ...meta, storageBytes: new Blob([raw!]).size } : meta, data, unreadable: !!raw && !data };
+  });
+
+  await write('migrate sessions from local storage', [META_STORE, DATA_STORE], tx => {
+    entries.forEach(({ meta, data }) => {
+      tx.objectStore(META_STORE).put(meta);
+      if (data) tx.objectStore(DATA_STORE).put(data, meta.id);
+    });
+  });
+
+  // Text that could not be parsed stays under its old key for recovery; deleting it
+  // would lose the session for good.
+  entries.forEach(({ meta, unreadable }) => { if (!unreadable) localStorage.removeItem(LEGACY_DATA_PREFIX + meta.id); });
+  localStorage.removeItem(LEGACY_META_KEY);
+  return entries.length;
+};
+
+export const estimateStorage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
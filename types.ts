@@ -65,13 +65,200 @@ export interface SessionMetadata {
   updatedAt: number;
   durationSeconds: number;
   wordCount: number;
+  storageBytes?: number; // Size of the stored SessionData, measured on save
+}
+
+// When a stretch of speech was heard, both as wall-clock ms and as an offset
+// into the session's recorded time (pauses excluded).
+export interface TimedSpan {
+  startedAt: number;
+  endedAt: number;
+  startOffsetMs: number;
+  endOffsetMs: number;
+}
+
+export type SpeakerColor = 'sky' | 'rose' | 'amber' | 'violet' | 'teal' | 'lime' | 'orange' | 'fuchsia';
+
+export interface Speaker {
+  id: string;
+  name: string; // Renameable per session
+  color: SpeakerColor;
+}
+
+// raw: committed without refinement; refined: awaiting translation.
+export type SegmentStatus = 'raw' | 'refined' | 'translating' | 'translated';
+
+// One aligned unit of the session: a committed source chunk and its interpretation.
+export interface Segment extends TimedSpan {
+  id: string;
+  raw: string;       // Recognizer output before refinement
+  refined: string;
+  refinedBy?: 'refiner' | 'user'; // Who wrote `refined`; absent in sessions saved before edits were told apart
+  translation: string;
+  status: SegmentStatus;
+  speakerId?: string; // Untagged when absent
+}
+
+// One entry of the shared glossary. Matching ignores case unless `caseSensitive`.
+export interface GlossaryTerm {
+  id: string;
+  source: string;
+  target: string; // Ignored when `doNotTranslate` is set
+  note: string;
+  caseSensitive: boolean;
+  doNotTranslate: boolean; // Brand and product names kept verbatim in the interpretation
+}
+
+export type ReferenceFileType = 'pdf' | 'docx' | 'pptx' | 'xlsx' | 'csv' | 'html' | 'md' | 'srt' | 'vtt' | 'txt';
+
+export type PageExtraction = 'text' | 'ocr' | 'none';
+
+// How one PDF page's text was obtained; `confidence` (0-1) estimates how readable it is.
+export interface ReferencePageQuality {
+  method: PageExtraction;
+  confidence: number;
+}
+
+// A document attached to a session as reference material.
+export interface ReferenceDocument {
+  id: string;
+  name: string;
+  type: ReferenceFileType;
+  size: number; // Bytes of the uploaded file
+  text: string; // Extracted text; PDF pages, slides and sheets are separated by form feeds
+  enabled: boolean; // Disabled documents stay attached but are not retrieved from
+  pages?: ReferencePageQuality[]; // PDFs only, in page order
+  addedAt: number;
+}
+
+export type EditOrigin = 'recognizer' | 'refiner' | 'translator' | 'user';
+
+// `before` is null for an inserted segment and `after` is null for a removed one.
+export interface SegmentChange {
+  index: number; // Position at the time of the change
+  before: Segment | null;
+  after: Segment | null;
+}
+
+// One undoable step in the segment history.
+export interface HistoryEntry {
+  origin: EditOrigin;
+  at: number;
+  changes: SegmentChange[];
 }
 
 export interface SessionData {
-  text: string;
-  translatedText: string;
+  text: string;           // Flattened source transcript, kept for readability and older builds
+  translatedText: string; // Flattened interpretation
   contextDesc: string;
-  fileContent: string;
-  fileName?: string; // Track the name of the context file
-  processedIndex: number;
+  references?: ReferenceDocument[]; // Absent in sessions saved before multiple references
+  fileContent?: string; // Legacy single reference, superseded by `references`
+  fileName?: string;
+  processedIndex?: number; // Legacy offset-based progress, superseded by segment status
+  languagePair?: LanguagePair; // Defaults to EN -> VI for sessions saved before pairs existed
+  segments?: Segment[];  // Absent in sessions saved before the segment store
+  pendingText?: string;  // Recognized text not yet committed to a segment
+  speakers?: Speaker[];
+}
+
+// One timeslice of microphone audio recorded during a session. A take is one
+// MediaRecorder run from start to stop, pauses included; its chunks only decode
+// when joined in `seq` order.
+export interface AudioChunk {
+  id: string;
+  sessionId: string;
+  takeId: string;
+  seq: number;
+  startOffsetMs: number; // Session offset at which the take began
+  endOffsetMs: number;   // Session offset when this chunk was delivered
+  mimeType: string;
+  bytes: number;
+  blob: Blob;
+}
+
+export type TranscriptionChunkStatus = 'pending' | 'running' | 'done' | 'failed';
+
+// A stretch of an uploaded recording sent to the provider on its own. Times are
+// relative to the start of the file.
+export interface TranscriptionChunk {
+  index: number;
+  startMs: number;
+  endMs: number;
+  status: TranscriptionChunkStatus;
+  error?: string;
+}
+
+// A long upload being transcribed chunk by chunk. Kept in the Vault until every
+// chunk is done, so an interrupted run resumes when the same file is uploaded again.
+export interface TranscriptionJob {
+  id: string; // Derived from the session and the file, see `transcriptionJobId`
+  sessionId: string;
+  fileName: string;
+  fileSize: number;
+  baseOffsetMs: number; // Session offset at which the file's audio is placed
+  diarize: boolean;
+  chunks: TranscriptionChunk[];
+  previousText?: string; // End of the last finished chunk, sent with the next one
+  speakerLabels?: string[]; // Diarized labels given out so far, sent with the next chunk
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SnapshotReason = 'auto' | 'before-clear' | 'before-restore';
+
+// The transcript side of a session. Context and references are left out of snapshots:
+// they can run to tens of megabytes and would crowd the history out of its budget.
+export type SnapshotData = Pick<SessionData, 'text' | 'translatedText' | 'languagePair' | 'segments' | 'pendingText' | 'speakers'>;
+
+// A point-in-time copy of a session's transcript, kept in the Vault's history.
+export interface SessionSnapshot {
+  id: string;
+  sessionId: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  wordCount: number;
+  bytes: number;
+  data: SnapshotData; // Snapshots written before this split also carry the full SessionData
+}
+
+// Full-fidelity session export; the importer accepts exactly this shape.
+export interface SessionArchive {
+  format: 'hieuai-session';
+  version: 1;
+  exportedAt: number;
+  meta: SessionMetadata;
+  data: SessionData;
+}
+
+export interface LiveTurn {
+  user: string; // Source speech as heard by the live model
+  ai: string;   // Spoken Vietnamese interpretation
+}
+
+export type ReaderDuckMode = 'pause' | 'duck';
+
+export interface ReaderPreferences {
+  voiceURI: string;
+  rate: number;
+  pitch: number;
+  duckMode: ReaderDuckMode; // Behaviour while the microphone is recording
+}
+
+export type LanguageCode = 'en' | 'vi' | 'ja' | 'ko' | 'zh';
+
+export interface LanguagePair {
+  source: LanguageCode;
+  target: LanguageCode;
+}
+
+export type AIProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface AISettings {
+  provider: AIProviderKind;
+  model: string;
+  baseUrl: string; // OpenAI-compatible servers only, e.g. http://localhost:11434/v1
+  apiKey: string;  // OpenAI-compatible servers only; Gemini reads GEMINI_API_KEY at build time
+  transcriptionModel: string; // OpenAI-compatible servers only: the Whisper-style model behind /audio/transcriptions
+  refineTranscript: boolean; // Off commits recognizer output verbatim
+  ocrScannedPages: boolean; // Sends PDF pages without a text layer to the model as images as soon as they are added
 }
@@ -0,0 +1,110 @@
+
+import { AudioChunk } from '../types';
+
+// Raw PCM helpers shared by the live interpreter and audio tooling.
+// Gemini streaming endpoints speak little-endian 16-bit mono PCM wrapped in base64.
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const step = 0x8000;
+  for (let i = 0; i < bytes.length; i += step) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + step));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const toPcm16 = (samples: Float32Array): Int16Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+};
+
+export const encodePcm16 = (samples: Float32Array): string => bytesToBase64(new Uint8Array(toPcm16(samples).buffer));
+
+// A 16-bit mono WAV file, which every transcription endpoint accepts.
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const pcm = toPcm16(samples);
+  const header = new DataView(new ArrayBuffer(44));
+  const text = (offset: number, value: string) => { for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i)); };
+  text(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  text(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+  return new Blob([header.buffer, pcm.buffer], { type: 'audio/wav' });
+};
+
+// Decodes a whole file to mono at `sampleRate`. Decoding straight to a low rate keeps
+// an hour of audio to a few hundred megabytes rather than gigabytes.
+export const decodeToMono = async (file: Blob, sampleRate: number): Promise<Float32Array> => {
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+export const decodePcm16 = (ctx: BaseAudioContext, base64: string, sampleRate: number): AudioBuffer => {
+  const bytes = base64ToBytes(base64);
+  const pcm = new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+  const buffer = ctx.createBuffer(1, pcm.length, sampleRate);
+  const channel = buffer.getChannelData(0);
+  for (let i = 0; i < pcm.length; i++) channel[i] = pcm[i] / 0x8000;
+  return buffer;
+};
+
+// One MediaRecorder run assembled from its stored chunks.
+export interface AudioTake {
+  id: string;
+  startOffsetMs: number;
+  endOffsetMs: number;
+  mimeType: string;
+  bytes: number;
+  chunks: AudioChunk[];
+}
+
+export const groupTakes = (chunks: AudioChunk[]): AudioTake[] => {
+  const takes = new Map<string, AudioTake>();
+  chunks.forEach(chunk => {
+    const take = takes.get(chunk.takeId);
+    if (!take) {
+      takes.set(chunk.takeId, { id: chunk.takeId, startOffsetMs: chunk.startOffsetMs, endOffsetMs: chunk.endOffsetMs, mimeType: chunk.mimeType, bytes: chunk.bytes, chunks: [chunk] });
+      return;
+    }
+    take.endOffsetMs = Math.max(take.endOffsetMs, chunk.endOffsetMs);
+    take.bytes += chunk.bytes;
+    take.chunks.push(chunk);
+  });
+  return Array.from(takes.values()).map(take => ({ ...take, chunks: take.chunks.sort((a, b) => a.seq - b.seq) }));
+};
+
+// Recognizer results arrive a moment after the words were spoken, so a line may be
+// stamped slightly outside the take that holds its audio.
+const TAKE_TOLERANCE_MS = 1500;
+
+export const takeAt = (takes: AudioTake[], offsetMs: number) =>
+  takes.find(t => offsetMs >= t.startOffsetMs - TAKE_TOLERANCE_MS && offsetMs <= t.endOffsetMs + TAKE_TOLERANCE_MS) || null;
+
+export const takeBlob = (take: AudioTake) => new Blob(take.chunks.map(c => c.blob), { type: take.mimeType });
@@ -0,0 +1,59 @@
+
+export type DiffKind = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  kind: DiffKind;
+  text: string;
+}
+
+// Past this many LCS cells the middle is reported as one replacement instead.
+const MAX_DIFF_CELLS = 4_000_000;
+
+const push = (parts: DiffPart[], kind: DiffKind, text: string) => {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.kind === kind) last.text += text;
+  else parts.push({ kind, text });
+};
+
+// Longest-common-subsequence diff over tokens. Shared prefix and suffix are
+// trimmed first, which keeps typical edits (appends, a changed line) cheap.
+const diffTokens = (a: string[], b: string[]): DiffPart[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const parts: DiffPart[] = [];
+  push(parts, 'equal', a.slice(0, start).join(''));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    push(parts, 'delete', midA.join(''));
+    push(parts, 'insert', midB.join(''));
+  } else {
+    const n = midA.length;
+    const m = midB.length;
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) { push(parts, 'equal', midA[i]); i++; j++; }
+      else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) { push(parts, 'delete', midA[i]); i++; }
+      else { push(parts, 'insert', midB[j]); j++; }
+    }
+  }
+
+  push(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+};
+
+// Whitespace runs are tokens too, so the parts join back into the original text.
+export const diffWords = (a: string, b: string) => diffTokens(a.match(/\s+|\S+/g) || [], b.match(/\s+|\S+/g) || []);
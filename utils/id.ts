@@ -0,0 +1,2 @@
+
+export const generateId = () => Math.random().toString(36).substring(2, 11);
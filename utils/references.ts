@@ -0,0 +1,44 @@
+
+import { ReferenceDocument, ReferenceFileType, SessionData } from '../types';
+import { generateId } from './id';
+
+const TYPES_BY_EXTENSION: Record<string, ReferenceFileType> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  pptx: 'pptx',
+  xlsx: 'xlsx',
+  csv: 'csv',
+  tsv: 'csv',
+  html: 'html',
+  htm: 'html',
+  md: 'md',
+  markdown: 'md',
+  srt: 'srt',
+  vtt: 'vtt',
+};
+
+// Anything unrecognised is read as plain text.
+export const referenceTypeOf = (fileName: string): ReferenceFileType =>
+  TYPES_BY_EXTENSION[fileName.split('.').pop()?.toLowerCase() || ''] || 'txt';
+
+export const REFERENCE_ACCEPT = ['.txt', ...Object.keys(TYPES_BY_EXTENSION).map(ext => `.${ext}`)].join(',');
+
+export const createReference = (name: string, size: number, text: string): ReferenceDocument => ({
+  id: generateId(),
+  name,
+  type: referenceTypeOf(name),
+  size,
+  text,
+  enabled: true,
+  addedAt: Date.now(),
+});
+
+// Sessions saved before multiple references hold at most one document as two flat fields.
+export const referencesOf = (data: SessionData, savedAt = Date.now()): ReferenceDocument[] => {
+  if (data.references) return data.references;
+  if (!data.fileContent) return [];
+  const name = data.fileName || 'Reference';
+  return [{ ...createReference(name, new Blob([data.fileContent]).size, data.fileContent), addedAt: savedAt }];
+};
+
+export const enabledReferences = (references: ReferenceDocument[]) => references.filter(r => r.enabled && r.text.trim());
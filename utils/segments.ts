@@ -0,0 +1,57 @@
+
+import { Segment, SegmentStatus, TimedSpan } from '../types';
+import { generateId } from './id';
+
+export const createSegment = (raw: string, refined: string, span: TimedSpan, status: SegmentStatus = 'refined', speakerId?: string): Segment => ({
+  id: generateId(),
+  ...span,
+  raw,
+  refined,
+  translation: '',
+  status,
+  ...(speakerId ? { speakerId } : {}),
+});
+
+// A hand edit is taken as written, even when the user has cleared the line.
+export const segmentSource = (seg: Segment) => seg.refinedBy === 'user' ? seg.refined : seg.refined || seg.raw;
+
+export const needsTranslation = (seg: Segment) => seg.status === 'raw' || seg.status === 'refined';
+
+// The line at a session offset: the latest to start at or before it, as long as it
+// has not long finished, so a pause between lines is not credited to either.
+export const segmentAt = (segments: Segment[], offsetMs: number, graceMs = 2000): Segment | null => {
+  let found: Segment | null = null;
+  segments.forEach(s => {
+    if (s.startOffsetMs <= offsetMs && s.endOffsetMs + graceMs >= offsetMs && (!found || s.startOffsetMs >= found.startOffsetMs)) found = s;
+  });
+  return found;
+};
+
+export const joinSource = (segments: Segment[]) => segments.map(segmentSource).filter(Boolean).join('\n');
+
+export const joinTranslation = (segments: Segment[]) => segments.map(s => s.translation).filter(Boolean).join('\n');
+
+// Sessions saved before the segment store only have two flat strings. Lines are
+// paired by position, which is the best alignment the old format can offer.
+export const segmentsFromLegacy = (text: string, translatedText: string, savedAt: number): Segment[] => {
+  const sourceLines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const targetLines = translatedText.split('\n').map(l => l.trim()).filter(Boolean);
+  const segments = sourceLines.map((line, i): Segment => ({
+    id: generateId(),
+    startedAt: savedAt,
+    endedAt: savedAt,
+    startOffsetMs: 0,
+    endOffsetMs: 0,
+    raw: line,
+    refined: line,
+    translation: targetLines[i] || '',
+    status: targetLines[i] ? 'translated' : 'refined',
+  }));
+  const overflow = targetLines.slice(sourceLines.length);
+  if (overflow.length > 0 && segments.length > 0) {
+    const last = segments[segments.length - 1];
+    last.translation = [last.translation, ...overflow].filter(Boolean).join(' ');
+    last.status = 'translated';
+  }
+  return segments;
+};
@@ -0,0 +1,46 @@
+
+import { Speaker, SpeakerColor } from '../types';
+import { generateId } from './id';
+
+// Tailwind classes for the panes and a hex value for the DOCX export.
+export const SPEAKER_STYLES: Record<SpeakerColor, { chip: string; dot: string; hex: string }> = {
+  sky: { chip: 'bg-sky-100 text-sky-700', dot: 'bg-sky-500', hex: '0369A1' },
+  rose: { chip: 'bg-rose-100 text-rose-700', dot: 'bg-rose-500', hex: 'BE123C' },
+  amber: { chip: 'bg-amber-100 text-amber-700', dot: 'bg-amber-500', hex: 'B45309' },
+  violet: { chip: 'bg-violet-100 text-violet-700', dot: 'bg-violet-500', hex: '6D28D9' },
+  teal: { chip: 'bg-teal-100 text-teal-700', dot: 'bg-teal-500', hex: '0F766E' },
+  lime: { chip: 'bg-lime-100 text-lime-700', dot: 'bg-lime-500', hex: '4D7C0F' },
+  orange: { chip: 'bg-orange-100 text-orange-700', dot: 'bg-orange-500', hex: 'C2410C' },
+  fuchsia: { chip: 'bg-fuchsia-100 text-fuchsia-700', dot: 'bg-fuchsia-500', hex: 'A21CAF' },
+};
+
+const COLOR_ORDER = Object.keys(SPEAKER_STYLES) as SpeakerColor[];
+
+// Hotkeys address speakers as Alt+1..Alt+9.
+export const MAX_SPEAKERS = 9;
+
+export const createSpeaker = (index: number, name = `Speaker ${index + 1}`): Speaker => ({
+  id: generateId(),
+  name,
+  color: COLOR_ORDER[index % COLOR_ORDER.length],
+});
+
+export const defaultSpeakers = (): Speaker[] => [createSpeaker(0), createSpeaker(1)];
+
+// Maps speaker labels returned by diarization ("Speaker A", "Alice") onto the
+// session's speakers by name, creating any that do not exist yet.
+export const resolveSpeakerLabels = (speakers: Speaker[], labels: string[]) => {
+  const next = [...speakers];
+  const idByLabel = new Map<string, string>();
+  labels.forEach(label => {
+    const key = label.trim().toLowerCase();
+    if (!key || idByLabel.has(key)) return;
+    const existing = next.find(s => s.name.trim().toLowerCase() === key);
+    if (existing) { idByLabel.set(key, existing.id); return; }
+    if (next.length >= MAX_SPEAKERS) return;
+    const created = createSpeaker(next.length, label.trim());
+    next.push(created);
+    idByLabel.set(key, created.id);
+  });
+  return { speakers: next, idFor: (label: string) => idByLabel.get(label.trim().toLowerCase()) };
+};
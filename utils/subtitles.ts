@@ -0,0 +1,160 @@
+
+import { Segment } from '../types';
+import { segmentSource } from './segments';
+
+export type SubtitleTrack = 'source' | 'target' | 'bilingual';
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  startMs: number;
+  endMs: number;
+  lines: string[];
+}
+
+interface SubtitleRules {
+  lineChars: number;
+  charsPerSecond: number;
+}
+
+// Common broadcast guidelines: two lines per cue, each cue on screen for 1-7
+// seconds. Japanese and Chinese glyphs are wider and denser, so lines are shorter
+// and read more slowly.
+const LATIN_RULES: SubtitleRules = { lineChars: 42, charsPerSecond: 17 };
+const CJK_RULES: SubtitleRules = { lineChars: 16, charsPerSecond: 9 };
+const MAX_LINES = 2;
+const MIN_CUE_MS = 1000;
+const MAX_CUE_MS = 7000;
+const CUE_GAP_MS = 40;
+
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u9fff]/g;
+
+const rulesFor = (text: string) => (text.match(CJK_CHAR)?.length || 0) > text.length / 2 ? CJK_RULES : LATIN_RULES;
+
+const readingMs = (text: string) => (text.length / rulesFor(text).charsPerSecond) * 1000;
+
+interface Token {
+  text: string;
+  glued: boolean; // Continues the previous token without a space
+}
+
+// Splits on whitespace; runs too long for a line (Japanese, Chinese, long URLs)
+// are broken into characters so they can still be wrapped.
+const tokenize = (text: string, limit: number): Token[] => text.split(/\s+/).filter(Boolean).flatMap(word => {
+  if (word.length <= limit) return [{ text: word, glued: false }];
+  return Array.from(word, (ch, i) => ({ text: ch, glued: i > 0 }));
+});
+
+// Never start a line with punctuation that closes the previous phrase.
+const CLOSING_PUNCTUATION = /^[、。，．！？」』）,.!?)]$/;
+
+const joinTokens = (tokens: Token[]) => tokens.map((t, i) => i > 0 && !t.glued ? ` ${t.text}` : t.text).join('');
+
+// Divides text into `count` pieces of roughly equal length on token boundaries.
+const splitEvenly = (text: string, count: number, limit: number): string[] => {
+  const tokens = tokenize(text, limit);
+  if (count <= 1 || tokens.length <= 1) return [joinTokens(tokens)];
+  const target = text.length / count;
+  const pieces: Token[][] = [[]];
+  let length = 0;
+  tokens.forEach(token => {
+    const current = pieces[pieces.length - 1];
+    const breakable = current.length > 0 && !CLOSING_PUNCTUATION.test(token.text);
+    if (breakable && length + token.text.length / 2 > target && pieces.length < count) {
+      pieces.push([{ ...token, glued: false }]);
+      length = token.text.length;
+    } else {
+      current.push(token);
+      length += token.text.length + (token.glued || current.length === 1 ? 0 : 1);
+    }
+  });
+  return pieces.map(joinTokens).filter(Boolean);
+};
+
+// Breaks a cue's text into lines, balancing the break near the middle.
+const wrapLines = (text: string, lineChars: number): string[] => {
+  if (text.length <= lineChars) return [text];
+  return splitEvenly(text, Math.ceil(text.length / lineChars), lineChars);
+};
+
+// Stretches `pieces` over `count` cues by holding each piece for consecutive cues.
+const spread = (pieces: string[], count: number) =>
+  Array.from({ length: count }, (_, j) => pieces[Math.floor((j * pieces.length) / count)] || '');
+
+const cueCountFor = (text: string, charsPerCue: number, durationMs: number) => Math.max(
+  1,
+  Math.ceil(text.length / charsPerCue),
+  Math.ceil(durationMs / MAX_CUE_MS),
+);
+
+// Stretches a segment to a readable duration without running into the next one.
+// Segments restored from pre-timestamp sessions all sit at offset zero, so cues
+// are also pushed past the previous one to keep the track sequential.
+const segmentWindow = (seg: Segment, next: Segment | undefined, text: string, previousEnd: number) => {
+  const start = Math.max(seg.startOffsetMs, previousEnd > 0 ? previousEnd + CUE_GAP_MS : 0);
+  const limit = next && next.startOffsetMs > start ? next.startOffsetMs - CUE_GAP_MS : Infinity;
+  const wanted = Math.max(seg.endOffsetMs - start, readingMs(text), MIN_CUE_MS);
+  return { start, end: Math.max(start + MIN_CUE_MS / 2, Math.min(start + wanted, limit)) };
+};
+
+// Shares a window between pieces in proportion to their length.
+const distribute = (start: number, end: number, pieces: string[][]): SubtitleCue[] => {
+  const weights = pieces.map(lines => Math.max(1, lines.join(' ').length));
+  const total = weights.reduce((a, b) => a + b, 0);
+  let cursor = start;
+  return pieces.map((lines, i) => {
+    const span = ((end - start) * weights[i]) / total;
+    const cue = { startMs: Math.round(cursor), endMs: Math.round(cursor + span), lines };
+    cursor += span;
+    return cue;
+  });
+};
+
+export const buildCues = (segments: Segment[], track: SubtitleTrack, labelFor?: (seg: Segment) => string | undefined): SubtitleCue[] => {
+  const usable = segments.filter(s => track === 'target' ? s.translation : segmentSource(s));
+  let previousEnd = 0;
+  return usable.flatMap((seg, i) => {
+    const label = labelFor?.(seg);
+    const withLabel = (text: string) => label ? `${label}: ${text}` : text;
+    const source = withLabel(segmentSource(seg));
+    const target = withLabel(seg.translation);
+    const primary = track === 'target' ? target : source;
+    const longest = track === 'bilingual' && target.length > source.length ? target : primary;
+    const { start, end } = segmentWindow(seg, usable[i + 1], longest, previousEnd);
+    previousEnd = end;
+
+    if (track === 'bilingual') {
+      // One line per language, so each piece must fit a single line. The shorter
+      // language is held on screen across the cues of the longer one.
+      const sourceRules = rulesFor(source);
+      const targetRules = rulesFor(target);
+      const sourcePieces = splitEvenly(source, cueCountFor(source, sourceRules.lineChars, end - start), sourceRules.lineChars);
+      const targetPieces = target ? splitEvenly(target, cueCountFor(target, targetRules.lineChars, end - start), targetRules.lineChars) : [];
+      const count = Math.max(sourcePieces.length, targetPieces.length);
+      const sourceLines = spread(sourcePieces, count);
+      const targetLines = spread(targetPieces, count);
+      return distribute(start, end, sourceLines.map((line, j) => [line, targetLines[j]].filter(Boolean)));
+    }
+
+    const rules = rulesFor(primary);
+    const count = cueCountFor(primary, rules.lineChars * MAX_LINES, end - start);
+    return distribute(start, end, splitEvenly(primary, count, rules.lineChars).map(line => wrapLines(line, rules.lineChars)));
+  });
+};
+
+const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+
+const formatCueTime = (ms: number, separator: ',' | '.') => {
+  const total = Math.max(0, Math.round(ms));
+  const h = Math.floor(total / 3600000);
+  const m = Math.floor((total % 3600000) / 60000);
+  const s = Math.floor((total % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(total % 1000, 3)}`;
+};
+
+export const formatSrt = (cues: SubtitleCue[]) => cues
+  .map((cue, i) => `${i + 1}\n${formatCueTime(cue.startMs, ',')} --> ${formatCueTime(cue.endMs, ',')}\n${cue.lines.join('\n')}`)
+  .join('\n\n') + '\n';
+
+export const formatVtt = (cues: SubtitleCue[]) => 'WEBVTT\n\n' + cues
+  .map((cue, i) => `${i + 1}\n${formatCueTime(cue.startMs, '.')} --> ${formatCueTime(cue.endMs, '.')}\n${cue.lines.join('\n')}`)
+  .join('\n\n') + '\n';
@@ -0,0 +1,11 @@
+
+export const formatDuration = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h > 0 ? h + ':' : ''}${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+};
+
+export const formatOffset = (ms: number) => formatDuration(Math.floor(Math.max(0, ms) / 1000));
+
+export const formatClock = (wallClock: number) => new Date(wallClock).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });